@@ -0,0 +1,104 @@
+/**
+ * build-attributes.ts
+ *
+ * Builds the catalogue of LLNG configuration attributes (type, allowed values,
+ * default, documentation) used to validate config changes before writing them.
+ *
+ * Usage:
+ *   tsx scripts/build-attributes.ts --src /path/to/lemonldap-ng
+ *
+ * Requires perl with JSON::PP and the LLNG manager's Perl dependencies. The
+ * attribute definitions are read from Lemonldap::NG::Manager::Build::Attributes.
+ *
+ * Output:
+ *   data/attributes.json
+ */
+
+import { writeFileSync, mkdirSync, existsSync } from "fs";
+import { resolve, join, dirname } from "path";
+import { execFileSync } from "child_process";
+
+const DOC_BASE_URL = "https://lemonldap-ng.org/documentation/latest/";
+
+// Dumps the JSON-serializable part of each attribute definition
+const DUMP_SCRIPT = `
+use strict;
+use JSON::PP;
+use Lemonldap::NG::Common;
+use Lemonldap::NG::Manager::Build::Attributes;
+my $attrs = Lemonldap::NG::Manager::Build::Attributes::attributes();
+my %out;
+for my $name ( keys %$attrs ) {
+    my $def = $attrs->{$name};
+    my %entry = ( type => $def->{type} // 'text' );
+    if ( exists $def->{default} ) {
+        my $kind = ref $def->{default};
+        $entry{default} = $def->{default} if !$kind || $kind eq 'HASH' || $kind eq 'ARRAY';
+    }
+    $entry{select} = [ map { $_->{k} } @{ $def->{select} } ]
+      if ref $def->{select} eq 'ARRAY';
+    $entry{documentation} = $def->{documentation} if $def->{documentation};
+    $entry{help} = $def->{help} if $def->{help};
+    $out{$name} = \\%entry;
+}
+print JSON::PP->new->canonical->encode(
+    { llngVersion => $Lemonldap::NG::Common::VERSION, attributes => \\%out } );
+`;
+
+interface DumpedAttribute {
+  type: string;
+  default?: unknown;
+  select?: string[];
+  documentation?: string;
+  help?: string;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const srcIdx = args.indexOf("--src");
+
+  if (srcIdx === -1 || !args[srcIdx + 1]) {
+    console.error("Usage: tsx scripts/build-attributes.ts --src /path/to/lemonldap-ng");
+    process.exit(1);
+  }
+
+  const srcDir = resolve(args[srcIdx + 1]);
+  const libs = [
+    join(srcDir, "lemonldap-ng-common/lib"),
+    join(srcDir, "lemonldap-ng-manager/lib"),
+  ];
+  for (const lib of libs) {
+    if (!existsSync(lib)) {
+      console.error(`Not an LLNG source tree: ${lib} not found`);
+      process.exit(1);
+    }
+  }
+
+  const outFile = resolve("data/attributes.json");
+  mkdirSync(dirname(outFile), { recursive: true });
+
+  console.log(`Source : ${srcDir}`);
+  console.log(`Output : ${outFile}`);
+
+  const output = execFileSync(
+    "perl",
+    [...libs.flatMap((lib) => ["-I", lib]), "-e", DUMP_SCRIPT],
+    { encoding: "utf-8", maxBuffer: 64 * 1024 * 1024 },
+  );
+  const dump: { llngVersion: string; attributes: Record<string, DumpedAttribute> } =
+    JSON.parse(output);
+
+  const attributes: Record<string, Record<string, unknown>> = {};
+  for (const name of Object.keys(dump.attributes).sort()) {
+    const { type, help, ...entry } = dump.attributes[name];
+    attributes[name] = { type, ...entry, ...(help ? { link: `${DOC_BASE_URL}${help}` } : {}) };
+  }
+
+  writeFileSync(
+    outFile,
+    JSON.stringify({ llngVersion: dump.llngVersion, attributes }, null, 1) + "\n",
+  );
+  console.log(`${Object.keys(attributes).length} attributes (LLNG ${dump.llngVersion})`);
+}
+
+main();
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { ApiTransport } from "../transport/api.js";
+import { SessionNotFoundError } from "../transport/interface.js";
 
 // Helper function to mock fetch response
 function mockFetchResponse(data: any, ok = true, status = 200) {
@@ -104,6 +105,56 @@ describe("ApiTransport", () => {
 
       await expect(transport.configInfo()).rejects.toThrow("API request failed");
     });
+
+    it("should retry GET requests on gateway errors", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        retries: 2,
+        retryDelayMs: 1,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockFetchResponse({}, false, 503))
+        .mockResolvedValue(mockFetchResponse({ cfgNum: 7 }));
+      global.fetch = mockFetch as any;
+
+      expect((await transport.configInfo()).cfgNum).toBe(7);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry other methods", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        retries: 2,
+        retryDelayMs: 1,
+      });
+
+      const mockFetch = vi.fn().mockResolvedValue(mockFetchResponse({}, false, 503));
+      global.fetch = mockFetch as any;
+
+      await expect(transport.sessionDelete(["abc"])).rejects.toThrow("HTTP 503");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should abort a request running past timeoutMs", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        timeoutMs: 10,
+      });
+
+      const mockFetch = vi.fn().mockImplementation(
+        (_url: string, options: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            options.signal!.addEventListener("abort", () => reject(options.signal!.reason));
+          }),
+      );
+      global.fetch = mockFetch as any;
+
+      await expect(transport.configInfo()).rejects.toThrow(
+        "GET /api/v1/config/latest timed out after 10 ms",
+      );
+    });
   });
 
   describe("configInfo", () => {
@@ -227,6 +278,97 @@ describe("ApiTransport", () => {
     });
   });
 
+  describe("expectedCfgNum", () => {
+    it("should write when the config has not moved", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 7, domain: "example.com" }))
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 7 }))
+        .mockResolvedValueOnce(mockFetchResponse({ success: true }));
+      global.fetch = mockFetch as any;
+
+      await transport.configSet({ domain: "example.org" }, undefined, { expectedCfgNum: 7 });
+
+      expect(mockFetch.mock.calls[2][1].method).toBe("PUT");
+      expect(JSON.parse(mockFetch.mock.calls[2][1].body).domain).toBe("example.org");
+    });
+
+    it("should rebase on the latest config when other keys changed", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          mockFetchResponse({ cfgNum: 8, domain: "example.com", portal: "https://new" }),
+        )
+        .mockResolvedValueOnce(
+          mockFetchResponse({ cfgNum: 7, domain: "example.com", portal: "https://old" }),
+        )
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 8 }))
+        .mockResolvedValueOnce(mockFetchResponse({ success: true }));
+      global.fetch = mockFetch as any;
+
+      await transport.configSet({ domain: "example.org" }, undefined, { expectedCfgNum: 7 });
+
+      expect(mockFetch.mock.calls[1][0]).toBe("https://auth.example.com/api/v1/config/7");
+      const body = JSON.parse(mockFetch.mock.calls[3][1].body);
+      expect(body).toEqual({ cfgNum: 8, domain: "example.org", portal: "https://new" });
+    });
+
+    it("should reject the write when an edited key changed", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 8, locationRules: { a: "deny" } }))
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 7, locationRules: { a: "accept" } }));
+      global.fetch = mockFetch as any;
+
+      await expect(
+        transport.configAddKey("locationRules", "b", "accept", { expectedCfgNum: 7 }),
+      ).rejects.toThrow(
+        "Config conflict: expected cfgNum 7 but latest is 8 and these keys changed meanwhile: locationRules",
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry when the config moves between read and write", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 7, domain: "example.com" }))
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 8 }))
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 8, domain: "example.com", x: 1 }))
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 7, domain: "example.com" }))
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 8 }))
+        .mockResolvedValueOnce(mockFetchResponse({ success: true }));
+      global.fetch = mockFetch as any;
+
+      await transport.configMerge(JSON.stringify({ domain: "example.org" }), {
+        expectedCfgNum: 7,
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+      const body = JSON.parse(mockFetch.mock.calls[5][1].body);
+      expect(body).toEqual({ cfgNum: 8, domain: "example.org", x: 1 });
+    });
+  });
+
   describe("configAddKey", () => {
     it("should add subkey to nested object", async () => {
       const transport = new ApiTransport({
@@ -354,6 +496,87 @@ describe("ApiTransport", () => {
 
       expect(result).toBe(JSON.stringify(configData, null, 2));
     });
+
+    it("should fetch a specific revision when cfgNum is given", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi.fn().mockResolvedValue(mockFetchResponse({ cfgNum: 3 }));
+      global.fetch = mockFetch as any;
+
+      await transport.configSave(3);
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://auth.example.com/api/v1/config/3");
+    });
+  });
+
+  describe("configHistory", () => {
+    it("should walk back from the latest revision and skip missing ones", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 5, cfgAuthor: "admin" }))
+        .mockResolvedValueOnce(
+          mockFetchResponse({ cfgNum: 5, cfgAuthor: "admin", cfgDate: "1700000500" }),
+        )
+        .mockResolvedValueOnce(mockFetchResponse({}, false, 404))
+        .mockResolvedValueOnce(
+          mockFetchResponse({ cfgNum: 3, cfgAuthor: "dwho", cfgDate: "1700000300", cfgLog: "x" }),
+        );
+      global.fetch = mockFetch as any;
+
+      const result = await transport.configHistory(2);
+
+      expect(mockFetch.mock.calls.map((call) => call[0])).toEqual([
+        "https://auth.example.com/api/v1/config/latest",
+        "https://auth.example.com/api/v1/config/5",
+        "https://auth.example.com/api/v1/config/4",
+        "https://auth.example.com/api/v1/config/3",
+      ]);
+      expect(result).toEqual([
+        { cfgNum: 5, cfgAuthor: "admin", cfgDate: "1700000500", cfgLog: undefined },
+        { cfgNum: 3, cfgAuthor: "dwho", cfgDate: "1700000300", cfgLog: "x" },
+      ]);
+    });
+
+    it("should stop after a run of missing revisions", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 5000 }))
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 5000, cfgAuthor: "admin" }))
+        .mockResolvedValue(mockFetchResponse({}, false, 404));
+      global.fetch = mockFetch as any;
+
+      const result = await transport.configHistory(100);
+
+      expect(result.map((info) => info.cfgNum)).toEqual([5000]);
+      expect(mockFetch).toHaveBeenCalledTimes(22);
+    });
+
+    it("should fail on errors other than a missing revision", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 5 }))
+        .mockResolvedValueOnce(mockFetchResponse({}, false, 401)) as any;
+
+      await expect(transport.configHistory(2)).rejects.toThrow("HTTP 401");
+    });
   });
 
   describe("configRestore", () => {
@@ -465,6 +688,47 @@ describe("ApiTransport", () => {
       expect(body).toEqual(previousConfig);
     });
 
+    it("should restore a specific revision with a log message", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 418 }))
+        .mockResolvedValueOnce(
+          mockFetchResponse({ cfgNum: 412, portal: "https://auth.example.com" }),
+        )
+        .mockResolvedValueOnce(mockFetchResponse({ success: true }));
+      global.fetch = mockFetch as any;
+
+      await transport.configRollback(412);
+
+      expect(mockFetch.mock.calls[1][0]).toBe("https://auth.example.com/api/v1/config/412");
+      const body = JSON.parse(mockFetch.mock.calls[2][1].body);
+      expect(body).toEqual({
+        cfgNum: 412,
+        portal: "https://auth.example.com",
+        cfgLog: "Rollback to config 412 (from 418)",
+      });
+    });
+
+    it("should refuse a target that is not older than the current config", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi.fn().mockResolvedValue(mockFetchResponse({ cfgNum: 5 }));
+      global.fetch = mockFetch as any;
+
+      await expect(transport.configRollback(5)).rejects.toThrow(
+        "target config 5 is not older than current config 5",
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
     it("should throw error when at cfgNum 1", async () => {
       const transport = new ApiTransport({
         baseUrl: "https://auth.example.com",
@@ -547,6 +811,21 @@ describe("ApiTransport", () => {
         expect.any(Object),
       );
     });
+
+    it("should tell a missing session from a failed lookup", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      global.fetch = vi.fn().mockResolvedValue(mockFetchResponse({}, false, 404)) as any;
+      await expect(transport.sessionGet("dwho", { persistent: true })).rejects.toBeInstanceOf(
+        SessionNotFoundError,
+      );
+
+      global.fetch = vi.fn().mockResolvedValue(mockFetchResponse({}, false, 401)) as any;
+      await expect(transport.sessionGet("dwho", { persistent: true })).rejects.toThrow("HTTP 401");
+    });
   });
 
   describe("sessionSearch", () => {
@@ -654,6 +933,36 @@ describe("ApiTransport", () => {
     });
   });
 
+  describe("sessionBulkDelete", () => {
+    it("should report each ID separately and go on after a failure", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockImplementation((url: string) =>
+          Promise.resolve(
+            url.endsWith("/missing")
+              ? mockFetchResponse({ error: "Session not found" }, false, 404)
+              : mockFetchResponse({ success: true }),
+          ),
+        );
+      global.fetch = mockFetch as any;
+
+      const results = await transport.sessionBulkDelete(["s1", "missing", "s2"]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(results.map((r) => [r.id, r.status])).toEqual([
+        ["s1", "ok"],
+        ["missing", "error"],
+        ["s2", "ok"],
+      ]);
+      expect(results[1].error).toContain("404");
+    });
+  });
+
   describe("deepMerge", () => {
     it("should properly merge nested objects", async () => {
       const transport = new ApiTransport({
@@ -731,6 +1040,133 @@ describe("ApiTransport", () => {
     });
   });
 
+  describe("healthCheck", () => {
+    it("should report session write as not supported", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockFetchResponse({ cfgNum: 4 }))
+        .mockResolvedValueOnce(mockFetchResponse({ s1: {}, s2: {} }));
+      global.fetch = mockFetch as any;
+
+      const result = await transport.healthCheck();
+
+      expect(result).toEqual({
+        config: { status: "ok", cfgNum: 4 },
+        sessionRead: { status: "ok", count: 2 },
+        sessionWrite: {
+          status: "error",
+          error: "Session write test is not supported via API. Use SSH or K8s mode.",
+        },
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("getVersion", () => {
+    it("should read the version from the response headers", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ...mockFetchResponse({}),
+        headers: new Headers({
+          "content-type": "application/json",
+          server: "Apache LemonLDAP::NG/2.21.1",
+        }),
+      }) as any;
+
+      expect(await transport.getVersion()).toBe("2.21.1");
+    });
+
+    it("should fail when no version is exposed", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      global.fetch = vi.fn().mockResolvedValue(mockFetchResponse({})) as any;
+
+      await expect(transport.getVersion()).rejects.toThrow(
+        "Could not determine the LemonLDAP::NG version from the API response",
+      );
+    });
+  });
+
+  describe("flushCache", () => {
+    it("should call the configured reload URLs without credentials", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        basicAuth: { username: "admin", password: "secret" },
+        verifySsl: true,
+      });
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          mockFetchResponse({
+            reloadUrls: {
+              "auth.example.com": "https://reload.example.com/reload",
+              "app.example.com": "https://app-reload.example.com/reload",
+            },
+          }),
+        )
+        .mockResolvedValueOnce(mockFetchResponse({}))
+        .mockResolvedValueOnce(mockFetchResponse({}, false, 503));
+      global.fetch = mockFetch as any;
+
+      const result = await transport.flushCache("all");
+
+      expect(mockFetch.mock.calls[1][0]).toBe("https://reload.example.com/reload");
+      expect(mockFetch.mock.calls[1][1].headers.Authorization).toBeUndefined();
+      expect(result).toEqual({
+        config: {
+          status: "error",
+          error: "https://app-reload.example.com/reload: API request failed: HTTP 503 Error",
+        },
+        sessions: {
+          status: "skipped",
+          reason: "Local session caches cannot be cleared through the REST API",
+        },
+      });
+    });
+
+    it("should skip the config cache when no reload URL is configured", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+
+      global.fetch = vi.fn().mockResolvedValue(mockFetchResponse({ cfgNum: 3 })) as any;
+
+      expect(await transport.flushCache("config")).toEqual({
+        config: { status: "skipped", reason: "No reloadUrls configured" },
+      });
+    });
+  });
+
+  describe("configTestEmail", () => {
+    it("should throw for configTestEmail", async () => {
+      const transport = new ApiTransport({
+        baseUrl: "https://auth.example.com",
+        verifySsl: true,
+      });
+      const mockFetch = vi.fn();
+      global.fetch = mockFetch as any;
+
+      await expect(transport.configTestEmail("admin@example.com")).rejects.toThrow(
+        "not supported via API",
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe("execScript", () => {
     it("should throw for execScript", async () => {
       const transport = new ApiTransport({
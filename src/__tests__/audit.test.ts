@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AuditLog, AuditRecord, enableAudit, redactArgs } from "../audit.js";
+import { TransportRegistry } from "../transport/registry.js";
+
+describe("redactArgs", () => {
+  it("redacts secret keys at any depth", () => {
+    const result = redactArgs({
+      confKey: "rp1",
+      clientSecret: "s3cr3t",
+      keys: { oidcServicePrivateKeySig: "-----BEGIN", domain: "example.com" },
+    });
+    expect(result).toEqual({
+      confKey: "rp1",
+      clientSecret: "***",
+      keys: { oidcServicePrivateKeySig: "***", domain: "example.com" },
+    });
+  });
+
+  it("parses and redacts JSON string arguments", () => {
+    const result = redactArgs({
+      json: JSON.stringify({ ldapPassword: "pw", ldapServer: "ldap://x" }),
+    });
+    expect(result.json).toEqual({ ldapPassword: "***", ldapServer: "ldap://x" });
+  });
+
+  it("redacts composite key values whose subkey is a secret", () => {
+    const result = redactArgs({
+      key: "oidcRPMetaDataOptions/rp1",
+      subkey: "oidcRPMetaDataOptionsClientSecret",
+      value: "s3cr3t",
+    });
+    expect(result.value).toBe("***");
+  });
+});
+
+describe("AuditLog", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "llng-audit-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function record(overrides: Partial<AuditRecord>): AuditRecord {
+    return {
+      timestamp: "2026-01-01T00:00:00.000Z",
+      actor: "alice",
+      instance: "prod",
+      tool: "llng_session_delete",
+      args: {},
+      outcome: "success",
+      ...overrides,
+    };
+  }
+
+  it("appends JSON lines and queries them newest first", () => {
+    const log = new AuditLog({ file: join(dir, "sub", "audit.jsonl"), actor: "alice" });
+    log.append(record({ timestamp: "2026-01-01T00:00:00.000Z" }));
+    log.append(record({ timestamp: "2026-01-02T00:00:00.000Z", tool: "llng_config_set" }));
+
+    const lines = readFileSync(join(dir, "sub", "audit.jsonl"), "utf-8")
+      .trim()
+      .split("\n");
+    expect(lines).toHaveLength(2);
+
+    const result = log.query();
+    expect(result.map((r) => r.tool)).toEqual(["llng_config_set", "llng_session_delete"]);
+  });
+
+  it("filters by user, tool, instance and time range", () => {
+    const log = new AuditLog({ file: join(dir, "audit.jsonl"), actor: "alice" });
+    log.append(record({ timestamp: "2026-01-01T00:00:00.000Z", args: { user: "dwho" } }));
+    log.append(record({ timestamp: "2026-01-02T00:00:00.000Z", actor: "bob" }));
+    log.append(record({ timestamp: "2026-01-03T00:00:00.000Z", instance: "staging" }));
+
+    expect(log.query({ user: "bob" })).toHaveLength(1);
+    expect(log.query({ user: "dwho" })).toHaveLength(1);
+    expect(log.query({ instance: "staging" })).toHaveLength(1);
+    expect(log.query({ tool: "llng_config_set" })).toHaveLength(0);
+    expect(
+      log.query({ since: "2026-01-01T12:00:00Z", until: "2026-01-02T12:00:00Z" })[0].actor,
+    ).toBe("bob");
+    expect(log.query({ limit: 2 })).toHaveLength(2);
+  });
+
+  it("returns no records when the file does not exist", () => {
+    const log = new AuditLog({ file: join(dir, "missing.jsonl") });
+    expect(log.query()).toEqual([]);
+  });
+});
+
+describe("enableAudit", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "llng-audit-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function setup() {
+    const handlers: Record<string, any> = {};
+    const server = {
+      tool: vi.fn((name: string, _desc: string, _schema: any, handler: any) => {
+        handlers[name] = handler;
+      }),
+    } as unknown as McpServer;
+    const transport = { configInfo: vi.fn().mockResolvedValue({ cfgNum: 42 }) };
+    const registry = {
+      getTransport: vi.fn().mockReturnValue(transport),
+      getDefaultInstance: vi.fn().mockReturnValue("default"),
+    } as unknown as TransportRegistry;
+    const log = new AuditLog({ file: join(dir, "audit.jsonl"), actor: "alice" });
+    enableAudit(server, registry, log);
+    return { server, handlers, log };
+  }
+
+  it("records successful config changes with the resulting cfgNum", async () => {
+    const { server, handlers, log } = setup();
+    server.tool("llng_config_set", "", {}, async () => ({
+      content: [{ type: "text", text: "ok" }],
+    }));
+
+    await handlers.llng_config_set({ keys: { domain: "example.org" } }, {});
+
+    const [entry] = log.query();
+    expect(entry).toMatchObject({
+      actor: "alice",
+      instance: "default",
+      tool: "llng_config_set",
+      args: { keys: { domain: "example.org" } },
+      outcome: "success",
+      cfgNum: 42,
+    });
+  });
+
+  it("records failures with the error message", async () => {
+    const { server, handlers, log } = setup();
+    server.tool("llng_session_delete", "", {}, async () => ({
+      content: [{ type: "text", text: "Error: boom" }],
+      isError: true,
+    }));
+
+    await handlers.llng_session_delete({ ids: ["abc"], instance: "prod" }, {});
+
+    const [entry] = log.query();
+    expect(entry).toMatchObject({ instance: "prod", outcome: "error", error: "Error: boom" });
+  });
+
+  it("ignores read-only tools and dry runs", async () => {
+    const { server, handlers, log } = setup();
+    server.tool("llng_config_get", "", {}, async () => ({ content: [] }));
+    server.tool("llng_config_merge", "", {}, async () => ({ content: [] }));
+
+    await handlers.llng_config_get({ keys: ["domain"] }, {});
+    await handlers.llng_config_merge({ json: "{}", dryRun: true }, {});
+
+    expect(log.query()).toEqual([]);
+  });
+});
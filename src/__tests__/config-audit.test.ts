@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ConfigAuditor, DEFAULT_SECURITY_RULES } from "../config-audit.js";
+import { registerConfigAuditTools } from "../tools/config-audit.js";
+import { TransportRegistry } from "../transport/registry.js";
+
+const HARDENED = {
+  cfgNum: 12,
+  portal: "https://auth.example.com/",
+  securedCookie: 1,
+  bruteForceProtection: 1,
+  passwordPolicyMinSize: 12,
+  corsAllow_Origin: "https://app.example.com",
+};
+
+describe("ConfigAuditor", () => {
+  let dir: string;
+  let rulesFile: string;
+
+  beforeEach(() => {
+    delete process.env.LLNG_SECURITY_RULES;
+    dir = mkdtempSync(join(tmpdir(), "llng-security-"));
+    rulesFile = join(dir, "security-rules.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports nothing on a hardened configuration", () => {
+    const report = new ConfigAuditor({ rulesFile }).run(HARDENED);
+
+    expect(report.cfgNum).toBe(12);
+    expect(report.rules).toBe(DEFAULT_SECURITY_RULES.length);
+    expect(report.findings).toEqual([]);
+  });
+
+  it("applies LLNG defaults to unset keys and sorts findings by severity", () => {
+    const report = new ConfigAuditor({ rulesFile }).run({
+      portal: "https://auth.example.com/",
+      logLevel: "debug",
+      requireToken: 0,
+    });
+
+    expect(report.findings.map((f) => f.id)).toEqual([
+      "secured-cookie-off",
+      "csrf-token-off",
+      "no-brute-force-protection",
+      "weak-password-policy",
+      "cors-wildcard",
+      "debug-log-level",
+    ]);
+    expect(report.findings[0].evidence).toEqual({
+      portal: "https://auth.example.com/",
+      securedCookie: 0,
+    });
+    expect(report.summary).toEqual({ critical: 0, high: 2, medium: 3, low: 1, info: 0 });
+  });
+
+  it("checks each relying party of a composite key", () => {
+    const report = new ConfigAuditor({ rulesFile }).run({
+      ...HARDENED,
+      oidcRPMetaDataOptions: {
+        spa: { oidcRPMetaDataOptionsPublic: 1 },
+        legacy: { oidcRPMetaDataOptionsIDTokenSignAlg: "none" },
+        app: { oidcRPMetaDataOptionsPublic: 1, oidcRPMetaDataOptionsRequirePKCE: 1 },
+      },
+    });
+
+    expect(report.findings.map((f) => [f.id, f.target])).toEqual([
+      ["oidc-rp-none-alg", "legacy"],
+      ["oidc-public-client-without-pkce", "spa"],
+    ]);
+  });
+
+  it("filters findings below the minimum severity", () => {
+    const report = new ConfigAuditor({ rulesFile }).run({ ...HARDENED, logLevel: "debug" }, "high");
+    expect(report.findings).toEqual([]);
+  });
+
+  it("adds, replaces and disables rules from the rules file", () => {
+    writeFileSync(
+      rulesFile,
+      JSON.stringify({
+        rules: [
+          { id: "debug-log-level", disabled: true },
+          {
+            id: "weak-password-policy",
+            severity: "high",
+            title: "Passwords shorter than 14 characters",
+            remediation: "Set passwordPolicyMinSize to 14",
+            match: { key: "passwordPolicyMinSize", default: 0, lt: 14 },
+          },
+          {
+            id: "no-2fa",
+            severity: "medium",
+            title: "TOTP second factor is not activated",
+            remediation: "Set totp2fActivation to 1",
+            match: {
+              not: { key: "totp2fActivation", in: ["1", "$requestedAuthnLevel >= 3"] },
+            },
+          },
+        ],
+      }),
+    );
+
+    const report = new ConfigAuditor({ rulesFile }).run({ ...HARDENED, logLevel: "debug" });
+
+    // One rule added, one disabled
+    expect(report.rules).toBe(DEFAULT_SECURITY_RULES.length);
+    expect(report.findings.map((f) => [f.id, f.severity])).toEqual([
+      ["weak-password-policy", "high"],
+      ["no-2fa", "medium"],
+    ]);
+  });
+
+  it("prefers LLNG_SECURITY_RULES over the configured file", () => {
+    process.env.LLNG_SECURITY_RULES = "/tmp/from-env.json";
+    try {
+      expect(new ConfigAuditor({ rulesFile }).rulesFile).toBe("/tmp/from-env.json");
+    } finally {
+      delete process.env.LLNG_SECURITY_RULES;
+    }
+  });
+
+  it("rejects invalid rules", () => {
+    writeFileSync(
+      rulesFile,
+      JSON.stringify({ rules: [{ id: "x", severity: "urgent", match: {} }] }),
+    );
+    expect(() => new ConfigAuditor({ rulesFile }).rules()).toThrow(
+      "severity must be one of critical, high, medium, low, info",
+    );
+
+    writeFileSync(rulesFile, JSON.stringify([{ id: "x" }]));
+    expect(() => new ConfigAuditor({ rulesFile }).rules()).toThrow('expected { "rules": [...] }');
+
+    writeFileSync(
+      rulesFile,
+      JSON.stringify({ rules: [{ id: "x", severity: "low", title: 3, match: {} }] }),
+    );
+    expect(() => new ConfigAuditor({ rulesFile }).rules()).toThrow("title must be a string");
+  });
+
+  it("uses the built-in rules only when the rules file does not exist", () => {
+    expect(new ConfigAuditor({ rulesFile }).rules()).toBe(DEFAULT_SECURITY_RULES);
+
+    // A directory exists but cannot be read as a file
+    expect(() => new ConfigAuditor({ rulesFile: dir }).rules()).toThrow("EISDIR");
+  });
+});
+
+describe("llng_config_audit tool", () => {
+  function setup(configSave: ReturnType<typeof vi.fn>) {
+    const handlers: Record<string, any> = {};
+    const server = {
+      tool: vi.fn((name: string, _desc: string, _schema: any, handler: any) => {
+        handlers[name] = handler;
+      }),
+    } as unknown as McpServer;
+    const registry = {
+      getTransport: vi.fn().mockReturnValue({ configSave }),
+    } as unknown as TransportRegistry;
+    registerConfigAuditTools(
+      server,
+      registry,
+      new ConfigAuditor({ rulesFile: "/nonexistent/security-rules.json" }),
+    );
+    return { handlers, registry };
+  }
+
+  it("audits the exported configuration of the instance", async () => {
+    delete process.env.LLNG_SECURITY_RULES;
+    const { handlers, registry } = setup(
+      vi.fn().mockResolvedValue(JSON.stringify({ ...HARDENED, httpOnly: 0 })),
+    );
+
+    const result = await handlers.llng_config_audit({ instance: "prod" });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(registry.getTransport).toHaveBeenCalledWith("prod", "manager");
+    expect(parsed.rulesFile).toBe("/nonexistent/security-rules.json");
+    expect(parsed.findings.map((f: any) => f.id)).toEqual(["http-only-off"]);
+  });
+
+  it("returns transport errors", async () => {
+    const { handlers } = setup(vi.fn().mockRejectedValue(new Error("connection refused")));
+
+    const result = await handlers.llng_config_audit({});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe("Error: connection refused");
+  });
+});
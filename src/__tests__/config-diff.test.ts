@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from "vitest";
+import { checkConfigConflict, deepMerge, diffConfig, previewConfigChange } from "../config-diff.js";
+import { ILlngTransport } from "../transport/interface.js";
+
+describe("diffConfig", () => {
+  it("reports added, removed and changed keys", () => {
+    const diff = diffConfig(
+      { domain: "example.com", portal: "https://auth.example.com", timeout: 72000 },
+      { domain: "example.org", portal: "https://auth.example.com", securedCookie: 1 },
+    );
+
+    expect(diff.changes).toEqual([
+      { op: "change", path: "domain", before: "example.com", after: "example.org" },
+      { op: "add", path: "securedCookie", after: 1 },
+      { op: "remove", path: "timeout", before: 72000 },
+    ]);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 1 });
+  });
+
+  it("recurses into nested objects with slash-separated paths", () => {
+    const diff = diffConfig(
+      { locationRules: { "app.example.com": { default: "accept" } } },
+      { locationRules: { "app.example.com": { default: "deny", "^/admin": "$uid eq 'dwho'" } } },
+    );
+
+    expect(diff.changes).toEqual([
+      { op: "add", path: "locationRules/app.example.com/^/admin", after: "$uid eq 'dwho'" },
+      {
+        op: "change",
+        path: "locationRules/app.example.com/default",
+        before: "accept",
+        after: "deny",
+      },
+    ]);
+  });
+
+  it("compares arrays as whole values", () => {
+    const diff = diffConfig({ list: [1, 2] }, { list: [1, 2, 3] });
+    expect(diff.changes).toEqual([
+      { op: "change", path: "list", before: [1, 2], after: [1, 2, 3] },
+    ]);
+  });
+
+  it("ignores config metadata keys", () => {
+    const diff = diffConfig(
+      { cfgNum: 1, cfgLog: "old", cfgDate: "1", domain: "example.com" },
+      { cfgNum: 2, cfgLog: "new", cfgDate: "2", domain: "example.com" },
+    );
+    expect(diff.changes).toEqual([]);
+  });
+});
+
+describe("deepMerge", () => {
+  it("ignores prototype pollution keys", () => {
+    const merged = deepMerge({}, JSON.parse('{"__proto__": {"polluted": true}, "a": 1}'));
+    expect(merged).toEqual({ a: 1 });
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
+
+describe("previewConfigChange", () => {
+  it("diffs the current config against the updated one without writing", async () => {
+    const transport = {
+      configSave: vi.fn().mockResolvedValue(JSON.stringify({ cfgNum: 3, domain: "example.com" })),
+      configSet: vi.fn(),
+    } as unknown as ILlngTransport;
+
+    const diff = await previewConfigChange(transport, (current) => ({
+      ...current,
+      domain: "example.org",
+    }));
+
+    expect(diff.changes).toEqual([
+      { op: "change", path: "domain", before: "example.com", after: "example.org" },
+    ]);
+    expect(transport.configSet).not.toHaveBeenCalled();
+  });
+});
+
+describe("checkConfigConflict", () => {
+  function makeTransport(current: number, revisions: Record<number, object>) {
+    return {
+      configInfo: vi.fn().mockResolvedValue({ cfgNum: current }),
+      configSave: vi.fn(async (cfgNum?: number) => {
+        const revision = revisions[cfgNum ?? current];
+        if (!revision) throw new Error("not found");
+        return JSON.stringify(revision);
+      }),
+    } as unknown as ILlngTransport;
+  }
+
+  it("passes when the config has not moved", async () => {
+    const transport = makeTransport(7, {});
+    await expect(checkConfigConflict(transport, 7, ["domain"])).resolves.toBeUndefined();
+    expect(transport.configSave).not.toHaveBeenCalled();
+  });
+
+  it("passes when only other keys changed", async () => {
+    const transport = makeTransport(8, {
+      7: { cfgNum: 7, domain: "example.com", portal: "https://old" },
+      8: { cfgNum: 8, domain: "example.com", portal: "https://new" },
+    });
+    await expect(checkConfigConflict(transport, 7, ["domain"])).resolves.toBeUndefined();
+  });
+
+  it("throws when an edited key changed", async () => {
+    const transport = makeTransport(8, {
+      7: { cfgNum: 7, domain: "example.com" },
+      8: { cfgNum: 8, domain: "example.net" },
+    });
+    await expect(checkConfigConflict(transport, 7, ["domain"])).rejects.toThrow(
+      "these keys changed meanwhile: domain",
+    );
+  });
+
+  it("throws when the expected revision is gone", async () => {
+    const transport = makeTransport(8, { 8: { cfgNum: 8 } });
+    await expect(checkConfigConflict(transport, 7, ["domain"])).rejects.toThrow(
+      "Config conflict: expected cfgNum 7 but latest is 8",
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { applyPromotion, buildPromotion } from "../config-promote.js";
+
+const STAGING = {
+  portal: "https://auth.staging.example.com/",
+  domain: "staging.example.com",
+  ldapPassword: "staging-ldap",
+  locationRules: {
+    "app.staging.example.com": { default: "accept", "^/admin": "$uid eq 'dwho'" },
+  },
+  exportedHeaders: { "app.staging.example.com": { "Auth-User": "$uid" } },
+  samlSPMetaDataXML: { sp1: { samlSPMetaDataXML: "<xml/>" } },
+  samlSPMetaDataOptions: { sp1: { samlSPMetaDataOptionsSignSSOMessage: 1 } },
+};
+
+describe("buildPromotion", () => {
+  it("rewrites hostnames in names and values, whole hostnames only", () => {
+    const promotion = buildPromotion(
+      STAGING,
+      {
+        keys: ["portal", "domain"],
+        objects: [{ type: "virtualHost", name: "app.staging.example.com" }],
+      },
+      {
+        rewrite: [
+          { from: "*.staging.example.com", to: "*.example.com" },
+          { from: "staging.example.com", to: "example.com" },
+        ],
+      },
+    );
+
+    expect(promotion.items).toEqual([
+      "portal",
+      "domain",
+      "virtualHost app.staging.example.com → app.example.com",
+    ]);
+    expect(promotion.entries).toEqual([
+      { key: "portal", value: "https://auth.example.com/" },
+      { key: "domain", value: "example.com" },
+      {
+        key: "locationRules",
+        subkey: "app.example.com",
+        value: { default: "accept", "^/admin": "$uid eq 'dwho'" },
+      },
+      { key: "exportedHeaders", subkey: "app.example.com", value: { "Auth-User": "$uid" } },
+      { key: "post", subkey: "app.example.com", value: undefined },
+      { key: "vhostOptions", subkey: "app.example.com", value: undefined },
+    ]);
+  });
+
+  it("leaves hostnames that only end with the pattern", () => {
+    const promotion = buildPromotion(
+      { portal: "https://auth.staging.example.community/" },
+      { keys: ["portal"] },
+      { rewrite: [{ from: "*.staging.example.com", to: "*.example.com" }] },
+    );
+    expect(promotion.entries[0].value).toBe("https://auth.staging.example.community/");
+  });
+
+  it("excludes secrets when asked", () => {
+    const promotion = buildPromotion(
+      STAGING,
+      { keys: ["ldapPassword", "domain"] },
+      { secrets: "exclude" },
+    );
+
+    expect(promotion.excludedSecrets).toEqual(["ldapPassword"]);
+    expect(promotion.entries.map((e) => e.key)).toEqual(["domain"]);
+  });
+
+  it("rejects keys and objects missing from the source", () => {
+    expect(() => buildPromotion(STAGING, { keys: ["timeout"] })).toThrow(
+      "Key 'timeout' is not set on the source instance",
+    );
+    expect(() => buildPromotion(STAGING, { objects: [{ type: "oidcRP", name: "app" }] })).toThrow(
+      "No oidcRP 'app' on the source instance",
+    );
+  });
+});
+
+describe("applyPromotion", () => {
+  it("replaces promoted objects as a whole and removes their missing parts", () => {
+    const promotion = buildPromotion(STAGING, { objects: [{ type: "samlSP", name: "sp1" }] });
+    const target = applyPromotion(
+      {
+        samlSPMetaDataXML: { sp1: { samlSPMetaDataXML: "<old/>" }, sp2: { samlSPMetaDataXML: "" } },
+        samlSPMetaDataOptions: { sp1: { samlSPMetaDataOptionsEncryptionMode: "assertion" } },
+        samlSPMetaDataMacros: { sp1: { name: "$cn" } },
+      },
+      promotion,
+    );
+
+    expect(target).toEqual({
+      samlSPMetaDataXML: { sp1: { samlSPMetaDataXML: "<xml/>" }, sp2: { samlSPMetaDataXML: "" } },
+      samlSPMetaDataOptions: { sp1: { samlSPMetaDataOptionsSignSSOMessage: 1 } },
+      samlSPMetaDataMacros: {},
+    });
+  });
+
+  it("keeps the target's secrets when they are excluded", () => {
+    const source = {
+      oidcRPMetaDataOptions: {
+        app: { oidcRPMetaDataOptionsClientSecret: "staging", oidcRPMetaDataOptionsPublic: 0 },
+      },
+    };
+    const promotion = buildPromotion(
+      source,
+      { objects: [{ type: "oidcRP", name: "app" }] },
+      { secrets: "exclude" },
+    );
+    const target = applyPromotion(
+      { oidcRPMetaDataOptions: { app: { oidcRPMetaDataOptionsClientSecret: "prod" } } },
+      promotion,
+    );
+
+    expect(target.oidcRPMetaDataOptions.app).toEqual({
+      oidcRPMetaDataOptionsClientSecret: "prod",
+      oidcRPMetaDataOptionsPublic: 0,
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  AttributeCatalogue,
+  ConfigValidationError,
+  assertValidConfig,
+  suggestAttributes,
+  validateConfigSubkey,
+  validateConfigValues,
+} from "../config-schema.js";
+
+const catalogue: AttributeCatalogue = {
+  llngVersion: "2.21.0",
+  attributes: {
+    portalSkin: { type: "text", default: "bootstrap" },
+    portalSkinRules: { type: "keyTextContainer" },
+    portalDisplayLogout: { type: "boolOrExpr", default: 1 },
+    timeout: { type: "int", default: 72000 },
+    sfOnlyUpgrade: { type: "bool" },
+    hiddenAttributes: { type: "text" },
+    authentication: { type: "select", select: ["LDAP", "Demo", "Kerberos"] },
+    locationRules: { type: "ruleContainer" },
+    exportedHeaders: { type: "keyTextContainer" },
+  },
+};
+
+describe("validateConfigValues", () => {
+  it("accepts valid values", () => {
+    expect(
+      validateConfigValues(
+        {
+          portalSkin: "bootstrap",
+          timeout: 3600,
+          sfOnlyUpgrade: true,
+          authentication: "LDAP",
+          locationRules: { "app.example.com": { default: "accept" } },
+          cfgLog: "meta keys are always accepted",
+        },
+        catalogue,
+      ),
+    ).toEqual([]);
+  });
+
+  it("rejects unknown keys with suggestions", () => {
+    expect(validateConfigValues({ portalSkn: "bootstrap" }, catalogue)).toEqual([
+      "portalSkn: unknown key (did you mean portalSkin?)",
+    ]);
+    expect(validateConfigValues({ frobnicate: 1 }, catalogue)).toEqual(["frobnicate: unknown key"]);
+  });
+
+  it("rejects wrong types and invalid enum values", () => {
+    expect(
+      validateConfigValues(
+        {
+          timeout: "2h",
+          sfOnlyUpgrade: "maybe",
+          authentication: "Ldap",
+          locationRules: "accept",
+          portalSkin: { name: "bootstrap" },
+        },
+        catalogue,
+      ),
+    ).toEqual([
+      'timeout: expected an integer, got "2h"',
+      'sfOnlyUpgrade: expected a boolean (0 or 1), got "maybe"',
+      'authentication: invalid value "Ldap", expected one of LDAP, Demo, Kerberos',
+      'locationRules: expected an object (ruleContainer), got "accept"',
+      "portalSkin: expected a single value (text), got an object",
+    ]);
+  });
+
+  it("rejects true and false strings for booleans", () => {
+    expect(validateConfigValues({ sfOnlyUpgrade: "true" }, catalogue)).toEqual([
+      'sfOnlyUpgrade: expected a boolean (0 or 1), got "true"',
+    ]);
+    expect(validateConfigValues({ sfOnlyUpgrade: "1" }, catalogue)).toEqual([]);
+  });
+
+  it("accepts everything when no catalogue is available", () => {
+    expect(validateConfigValues({ portalSkn: "x" }, undefined)).toEqual([]);
+  });
+});
+
+describe("validateConfigSubkey", () => {
+  it("only accepts composite parameters", () => {
+    expect(validateConfigSubkey("exportedHeaders", catalogue)).toEqual([]);
+    expect(validateConfigSubkey("timeout", catalogue)).toEqual([
+      "timeout: not a composite parameter (int), use llng_config_set",
+    ]);
+    expect(validateConfigSubkey("locationRule", catalogue)).toEqual([
+      "locationRule: unknown key (did you mean locationRules?)",
+    ]);
+  });
+});
+
+describe("suggestAttributes", () => {
+  it("returns the closest names first", () => {
+    expect(suggestAttributes("portalskin", catalogue)).toEqual(["portalSkin"]);
+    expect(suggestAttributes("PortalSkinRule", catalogue)[0]).toBe("portalSkinRules");
+  });
+});
+
+describe("assertValidConfig", () => {
+  it("lists every issue in the error", () => {
+    expect(() => assertValidConfig(["a: unknown key", "b: unknown key"])).toThrow(
+      ConfigValidationError,
+    );
+    expect(() => assertValidConfig(["a: unknown key", "b: unknown key"])).toThrow(
+      "Invalid configuration:\n- a: unknown key\n- b: unknown key",
+    );
+    expect(() => assertValidConfig([])).not.toThrow();
+  });
+});
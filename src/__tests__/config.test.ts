@@ -510,6 +510,21 @@ describe("loadMultiConfig", () => {
     expect(multi.instances.staging.ssh?.host).toBe("staging.example.com");
   });
 
+  it("keeps instance policies", () => {
+    const fileConfig = {
+      instances: {
+        prod: { mode: "ssh", policy: { readOnly: true, deny: ["llng_rotate_*"] } },
+      },
+      default: "prod",
+    };
+
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(fileConfig));
+
+    const multi = loadMultiConfig();
+
+    expect(multi.instances.prod.policy).toEqual({ readOnly: true, deny: ["llng_rotate_*"] });
+  });
+
   it("applies SSH defaults to multi-instance configs", () => {
     const fileConfig = {
       instances: {
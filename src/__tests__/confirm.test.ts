@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  confirmWithState,
+  consumeConfirmToken,
+  isConfirmationPrompt,
+  issueConfirmToken,
+  requireConfirmation,
+} from "../confirm.js";
+
+describe("confirmation tokens", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts a token once for the same tool and arguments", () => {
+    const token = issueConfirmToken("llng_config_import", { json: "{}", instance: "prod" });
+    expect(() =>
+      consumeConfirmToken("llng_config_import", { instance: "prod", json: "{}" }, token),
+    ).not.toThrow();
+    expect(() =>
+      consumeConfirmToken("llng_config_import", { json: "{}", instance: "prod" }, token),
+    ).toThrow("Invalid or expired confirmation token");
+  });
+
+  it("refuses a token issued for another tool or instance", () => {
+    const token = issueConfirmToken("llng_config_import", { json: "{}", instance: "staging" });
+    expect(() =>
+      consumeConfirmToken("llng_config_import", { json: "{}", instance: "prod" }, token),
+    ).toThrow("does not match these arguments");
+    expect(() =>
+      consumeConfirmToken("llng_config_rollback", { json: "{}", instance: "staging" }, token),
+    ).toThrow("does not match these arguments");
+  });
+
+  it("refuses an expired token", () => {
+    vi.useFakeTimers();
+    const token = issueConfirmToken("llng_2fa_delType", { user: "dwho", type: "TOTP" });
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+    expect(() =>
+      consumeConfirmToken("llng_2fa_delType", { user: "dwho", type: "TOTP" }, token),
+    ).toThrow("Invalid or expired confirmation token");
+  });
+});
+
+describe("requireConfirmation", () => {
+  it("returns a prompt with the summary, then lets the confirmed call through", async () => {
+    const summarize = vi.fn().mockResolvedValue({ summary: "will delete 3 session(s)" });
+
+    const prompt = await requireConfirmation(
+      "llng_session_delete",
+      { where: { uid: "x" } },
+      summarize,
+    );
+    expect(isConfirmationPrompt(prompt)).toBe(true);
+    const parsed = JSON.parse(prompt!.content[0].text);
+    expect(parsed).toMatchObject({
+      confirmationRequired: true,
+      summary: "will delete 3 session(s)",
+    });
+
+    const next = await requireConfirmation(
+      "llng_session_delete",
+      { where: { uid: "x" }, confirmToken: parsed.confirmToken },
+      summarize,
+    );
+    expect(next).toBeUndefined();
+    expect(summarize).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("confirmWithState", () => {
+  it("hands back the state recorded with the summary, without showing it", async () => {
+    const args = { source: "staging", keys: ["portal"] };
+    const first = await confirmWithState("llng_config_promote", args, async () => ({
+      summary: "will promote 1 item(s)",
+      state: { targetCfgNum: 9 },
+    }));
+    expect(first.state).toBeUndefined();
+    const parsed = JSON.parse(first.prompt!.content[0].text);
+    expect(parsed.state).toBeUndefined();
+
+    const second = await confirmWithState(
+      "llng_config_promote",
+      { ...args, confirmToken: parsed.confirmToken },
+      vi.fn(),
+    );
+    expect(second.prompt).toBeUndefined();
+    expect(second.state).toEqual({ targetCfgNum: 9 });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { generateKeyPairSync } from "crypto";
+import {
+  certificateExpiryCheck,
+  clockSkewCheck,
+  jwksContainsKey,
+  runDiagnostics,
+  samlMetadataChecks,
+} from "../diagnose.js";
+import { ILlngTransport } from "../transport/interface.js";
+
+const { publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const PUBLIC_PEM = publicKey.export({ type: "spki", format: "pem" }).toString();
+const PUBLIC_JWK = publicKey.export({ format: "jwk" });
+
+function jsonResponse(data: any, status = 200) {
+  return {
+    ok: status < 400,
+    status,
+    headers: new Headers({ date: new Date().toUTCString() }),
+    json: () => Promise.resolve(data),
+    text: () => Promise.resolve(typeof data === "string" ? data : JSON.stringify(data)),
+  };
+}
+
+describe("diagnostic checks", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+
+  it("grades certificate expiry", () => {
+    expect(certificateExpiryCheck("portal", "tls", new Date("2027-01-01"), now).status).toBe("ok");
+    expect(certificateExpiryCheck("portal", "tls", new Date("2026-01-10"), now)).toMatchObject({
+      status: "warn",
+      detail: "expires in 9 day(s), on 2026-01-10T00:00:00.000Z",
+    });
+    expect(certificateExpiryCheck("portal", "tls", new Date("2025-12-01"), now).status).toBe(
+      "error",
+    );
+  });
+
+  it("finds the signing key in a JWKS", () => {
+    expect(jwksContainsKey({ keys: [{ kid: "k1", ...PUBLIC_JWK }] }, PUBLIC_PEM)).toBe(true);
+    expect(
+      jwksContainsKey({ keys: [{ kid: "k1", kty: "RSA", n: "abc", e: "AQAB" }] }, PUBLIC_PEM),
+    ).toBe(false);
+  });
+
+  it("rejects SAML metadata without entity or with a broken certificate", () => {
+    expect(samlMetadataChecks("<html></html>")[0].status).toBe("error");
+    const checks = samlMetadataChecks(
+      "<md:EntityDescriptor entityID='x'><ds:X509Certificate>bm9wZQ==</ds:X509Certificate></md:EntityDescriptor>",
+    );
+    expect(checks.map((c) => [c.check, c.status])).toEqual([
+      ["metadata", "ok"],
+      ["certificate 1", "error"],
+    ]);
+  });
+
+  it("grades clock skew", () => {
+    expect(clockSkewCheck("LLNG host", 1005, 1000)).toMatchObject({
+      status: "ok",
+      detail: "LLNG host clock is 5s ahead",
+    });
+    expect(clockSkewCheck("LLNG host", 940, 1000).status).toBe("warn");
+    expect(clockSkewCheck("LLNG host", 2000, 1000).status).toBe("error");
+  });
+});
+
+describe("runDiagnostics", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function makeTransport(config: Record<string, any>) {
+    return {
+      healthCheck: vi.fn().mockResolvedValue({
+        config: { status: "ok", cfgNum: 12 },
+        sessionRead: { status: "ok", count: 3 },
+        sessionWrite: { status: "ok" },
+      }),
+      configGet: vi.fn().mockResolvedValue(config),
+      diagnoseHost: vi.fn().mockResolvedValue({
+        time: Math.floor(Date.now() / 1000),
+        configCache: { status: "ok", db: 12, cache: 11 },
+        ldap: { status: "error", server: "ldap://ldap", error: "Bind failed: invalid credentials" },
+      }),
+    } as unknown as ILlngTransport;
+  }
+
+  it("reports each layer with hints", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url === "http://auth.example.com/") return jsonResponse("<html/>");
+      if (url.endsWith("/.well-known/openid-configuration")) {
+        return jsonResponse({
+          issuer: "http://auth.example.com",
+          jwks_uri: "http://auth.example.com/oauth2/jwks",
+        });
+      }
+      if (url.endsWith("/oauth2/jwks")) return jsonResponse({ keys: [PUBLIC_JWK] });
+      throw new Error(`unexpected ${url}`);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const report = await runDiagnostics(
+      makeTransport({
+        portal: "http://auth.example.com/",
+        issuerDBOpenIDConnectActivation: 1,
+        oidcServicePublicKeySig: PUBLIC_PEM,
+      }),
+    );
+
+    const byCheck = Object.fromEntries(report.checks.map((c) => [`${c.layer}/${c.check}`, c]));
+    expect(report.status).toBe("error");
+    expect(byCheck["config/config"].status).toBe("ok");
+    expect(byCheck["portal/reachability"].status).toBe("ok");
+    expect(byCheck["portal/tls certificate"].status).toBe("warn");
+    expect(byCheck["oidc/discovery"].status).toBe("ok");
+    expect(byCheck["oidc/jwks"].status).toBe("ok");
+    expect(byCheck["saml/metadata"].status).toBe("skipped");
+    expect(byCheck["config/local cache"]).toMatchObject({
+      status: "warn",
+      detail: "local cache holds config 11, database has 12",
+    });
+    expect(byCheck["backend/ldap"]).toMatchObject({
+      status: "error",
+      detail: "Bind failed: invalid credentials",
+      hint: "Check the LDAP server and the credentials in the configuration",
+    });
+    expect(byCheck["host/clock skew"].status).toBe("ok");
+  });
+
+  it("falls back to the portal clock when host checks are unavailable", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => jsonResponse("<html/>", 502)),
+    );
+    const transport = makeTransport({ portal: "http://auth.example.com/" });
+    (transport.diagnoseHost as any).mockRejectedValue(
+      new Error("diagnoseHost is not supported via API. Use SSH or K8s mode."),
+    );
+
+    const report = await runDiagnostics(transport);
+
+    const byCheck = Object.fromEntries(report.checks.map((c) => [`${c.layer}/${c.check}`, c]));
+    expect(byCheck["portal/reachability"].status).toBe("error");
+    expect(byCheck["host/host diagnostics"].status).toBe("skipped");
+    expect(byCheck["host/clock skew"].detail).toMatch(/^portal clock is \d+s/);
+  });
+
+  it("keeps checking the other layers when the portal URL is invalid", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new Error("fetch failed");
+      }),
+    );
+
+    const report = await runDiagnostics(makeTransport({ portal: "auth.example.com" }));
+
+    const byCheck = Object.fromEntries(report.checks.map((c) => [`${c.layer}/${c.check}`, c]));
+    expect(byCheck["portal/reachability"]).toMatchObject({
+      status: "error",
+      detail: "portal is not a valid URL: auth.example.com",
+    });
+    expect(byCheck["saml/metadata"].status).toBe("skipped");
+    expect(byCheck["host/clock skew"].status).toBe("ok");
+  });
+});
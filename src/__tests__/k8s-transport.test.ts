@@ -64,6 +64,18 @@ describe("K8sTransport", () => {
   });
 
   describe("Pod resolution", () => {
+    it("lists every matching pod as a node and pins a pod per node", async () => {
+      setupSpawnMock({ stdout: "llng-pod-a\nllng-pod-b\n" }, { stdout: "2.21.0" });
+
+      const transport = new K8sTransport(defaultConfig);
+      expect(await transport.listNodes()).toEqual(["llng-pod-a", "llng-pod-b"]);
+
+      await transport.forNode("llng-pod-b").getVersion();
+
+      expect(spawnCalls).toHaveLength(2);
+      expect(spawnCalls[1].args).toContain("llng-pod-b");
+    });
+
     it("resolves pod name using default label selector", async () => {
       setupSpawnMock(
         { stdout: "lemonldap-ng-abc123" },
@@ -85,7 +97,7 @@ describe("K8sTransport", () => {
         "-l",
         "app.kubernetes.io/name=lemonldap-ng",
         "-o",
-        "jsonpath={.items[0].metadata.name}",
+        expect.stringMatching(/^jsonpath=\{range \.items\[\*\]\}/),
       ]);
 
       // Second call: exec
@@ -94,6 +106,80 @@ describe("K8sTransport", () => {
       expect(spawnCalls[1].args).toContain("lemonldap-ng-abc123");
     });
 
+    it("prefers Ready pods and skips terminating ones", async () => {
+      setupSpawnMock(
+        {
+          stdout: [
+            "llng-old\t2025-01-01T00:00:00Z\tTrue\t2025-01-30T10:00:00Z",
+            "llng-starting\t2025-01-30T10:00:00Z\tFalse\t",
+            "llng-ready\t2025-01-29T00:00:00Z\tTrue\t",
+          ].join("\n"),
+        },
+        { stdout: "Num      : 42" },
+      );
+
+      const transport = new K8sTransport(defaultConfig);
+      await transport.configInfo();
+
+      expect(spawnCalls[1].args).toContain("llng-ready");
+    });
+
+    it("targets the newest pod with podSelection newest", async () => {
+      setupSpawnMock(
+        {
+          stdout: [
+            "llng-a\t2025-01-01T00:00:00Z\tTrue\t",
+            "llng-b\t2025-01-29T00:00:00Z\tTrue\t",
+          ].join("\n"),
+        },
+        { stdout: "Num      : 42" },
+      );
+
+      const transport = new K8sTransport({ ...defaultConfig, podSelection: "newest" });
+      await transport.configInfo();
+
+      expect(spawnCalls[1].args).toContain("llng-b");
+    });
+
+    it("re-resolves the pod and retries when it is gone", async () => {
+      const responses = [
+        { stdout: "llng-old" },
+        { stdout: "Num      : 1" },
+        { stdout: "", stderr: 'Error from server (NotFound): pods "llng-old" not found', code: 1 },
+        { stdout: "llng-new" },
+        { stdout: "Num      : 2" },
+      ];
+      vi.mocked(child_process.spawn).mockImplementation((cmd: string, args?: readonly string[]) => {
+        spawnCalls.push({ cmd, args: args ? [...args] : [] });
+        const resp = responses[spawnCalls.length - 1];
+        return mockSpawn(resp.stdout, resp.stderr, resp.code) as any;
+      });
+
+      const transport = new K8sTransport(defaultConfig);
+      await transport.configInfo();
+      const info = await transport.configInfo();
+
+      expect(info.cfgNum).toBe(2);
+      expect(spawnCalls[2].args).toContain("llng-old");
+      expect(spawnCalls[4].args).toContain("llng-new");
+    });
+
+    it("uses a pinned pod without lookup or retry", async () => {
+      const responses = [
+        { stdout: "", stderr: 'Error from server (NotFound): pods "llng-pinned" not found' },
+      ];
+      vi.mocked(child_process.spawn).mockImplementation((cmd: string, args?: readonly string[]) => {
+        spawnCalls.push({ cmd, args: args ? [...args] : [] });
+        return mockSpawn(responses[0].stdout, responses[0].stderr, 1) as any;
+      });
+
+      const transport = new K8sTransport({ ...defaultConfig, pod: "llng-pinned" });
+      await expect(transport.configInfo()).rejects.toThrow('pods "llng-pinned" not found');
+
+      expect(spawnCalls).toHaveLength(1);
+      expect(spawnCalls[0].args).toContain("exec");
+    });
+
     it("caches pod name across calls", async () => {
       setupSpawnMock(
         { stdout: "lemonldap-ng-abc123" },
@@ -248,6 +334,23 @@ describe("K8sTransport", () => {
       expect(execCall.args).toContain("Update");
     });
 
+    it("configSet restores the edited config for nested values", async () => {
+      setupSpawnMock(
+        { stdout: "llng-pod-123" },
+        { stdout: JSON.stringify({ cfgNum: 2, exportedHeaders: { old: { X: "$uid" } } }) },
+        { stdout: "" },
+      );
+
+      const transport = new K8sTransport(defaultConfig);
+      await transport.configSet({
+        exportedHeaders: { "app.example.com": { "Auth-User": "$uid" } },
+      });
+
+      expect(spawnCalls[1].args.slice(-1)).toEqual(["save"]);
+      expect(spawnCalls[2].args).toContain("-i");
+      expect(spawnCalls[2].args.slice(-4)).toEqual(["restore", "-yes", "1", "-"]);
+    });
+
     it("sessionSearch builds correct args", async () => {
       setupSpawnMock({ stdout: "llng-pod-123" }, { stdout: '[{"id": "s1"}]' });
 
@@ -257,10 +360,17 @@ describe("K8sTransport", () => {
       expect(result).toEqual([{ id: "s1" }]);
     });
 
-    it("unsupported methods throw", async () => {
+    it("secondFactorsGet reads the persistent session", async () => {
+      setupSpawnMock(
+        { stdout: "llng-pod-123" },
+        { stdout: JSON.stringify({ _2fDevices: '[{"type":"TOTP","name":"Phone","epoch":1}]' }) },
+      );
+
       const transport = new K8sTransport(defaultConfig);
-      await expect(transport.secondFactorsGet("user")).rejects.toThrow("Use API mode");
-      await expect(transport.consentsGet("user")).rejects.toThrow("Use API mode");
+      const result = await transport.secondFactorsGet("user");
+
+      expect(spawnCalls[1].args).toContain("--persistent");
+      expect(result.map((device) => device.type)).toEqual(["TOTP"]);
     });
 
     it("sessionSetKey uses execSessions with setKey command", async () => {
@@ -339,4 +449,25 @@ describe("K8sTransport", () => {
       expect(result).toBe("Keys rotated successfully");
     });
   });
+
+  describe("retries", () => {
+    it("retries reads when the API server is unreachable", async () => {
+      const responses = [
+        { stdout: "", stderr: "Unable to connect to the server: dial tcp: i/o timeout", code: 1 },
+        { stdout: "lemonldap-ng-abc\t2026-01-01T00:00:00Z\tTrue\t\n", stderr: "", code: 0 },
+        { stdout: "Num : 3\n", stderr: "", code: 0 },
+      ];
+      vi.mocked(child_process.spawn).mockImplementation((cmd: string, args?: readonly string[]) => {
+        spawnCalls.push({ cmd, args: args ? [...args] : [] });
+        const resp = responses[spawnCallIndex++];
+        return mockSpawn(resp.stdout, resp.stderr, resp.code) as any;
+      });
+
+      const transport = new K8sTransport({ ...defaultConfig, retries: 1, retryDelayMs: 1 });
+      const info = await transport.configInfo();
+
+      expect(info.cfgNum).toBe(3);
+      expect(spawnCalls).toHaveLength(3);
+    });
+  });
 });
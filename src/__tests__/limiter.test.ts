@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { ConcurrencyLimiter } from "../transport/limiter.js";
+
+describe("ConcurrencyLimiter", () => {
+  it("runs at most max tasks at once, in order", async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const started: number[] = [];
+
+    const task = (i: number) =>
+      limiter.run(async () => {
+        started.push(i);
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return i;
+      });
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(task));
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it("releases the slot when a task fails", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    expect(await limiter.run(async () => "next")).toBe("next");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  persistentSecondFactorsDelete,
+  persistentSecondFactorsGet,
+  secondFactorId,
+} from "../transport/persistent-session.js";
+import { ILlngTransport } from "../transport/interface.js";
+
+const DEVICES = [
+  { type: "TOTP", name: "Phone", epoch: 1700000000, _secret: "s3cr3t" },
+  { type: "WebAuthn", name: "Key", epoch: 1700000100 },
+];
+
+function makeTransport(session: Record<string, any>) {
+  return {
+    sessionGet: vi.fn().mockResolvedValue(session),
+    sessionSetKey: vi.fn().mockResolvedValue(undefined),
+  } as unknown as ILlngTransport & {
+    sessionGet: ReturnType<typeof vi.fn>;
+    sessionSetKey: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe("persistent session 2FA devices", () => {
+  it("lists devices without their private data", async () => {
+    const transport = makeTransport({ _2fDevices: JSON.stringify(DEVICES) });
+
+    const devices = await persistentSecondFactorsGet(transport, "dwho");
+
+    expect(transport.sessionGet).toHaveBeenCalledWith("dwho", { persistent: true });
+    expect(devices).toEqual([
+      { id: secondFactorId(DEVICES[0]), type: "TOTP", name: "Phone", epoch: 1700000000 },
+      { id: secondFactorId(DEVICES[1]), type: "WebAuthn", name: "Key", epoch: 1700000100 },
+    ]);
+  });
+
+  it("returns no devices when the attribute is missing", async () => {
+    const transport = makeTransport({ _session_uid: "dwho" });
+    expect(await persistentSecondFactorsGet(transport, "dwho")).toEqual([]);
+  });
+
+  it("deletes devices by id", async () => {
+    const transport = makeTransport({ _2fDevices: JSON.stringify(DEVICES) });
+
+    await persistentSecondFactorsDelete(transport, "dwho", [secondFactorId(DEVICES[1])]);
+
+    expect(transport.sessionSetKey).toHaveBeenCalledWith(
+      "dwho",
+      { _2fDevices: JSON.stringify([DEVICES[0]]) },
+      { persistent: true },
+    );
+  });
+
+  it("fails on unknown ids without writing", async () => {
+    const transport = makeTransport({ _2fDevices: JSON.stringify(DEVICES) });
+
+    await expect(persistentSecondFactorsDelete(transport, "dwho", ["nope"])).rejects.toThrow(
+      "No 2FA device matching nope for user 'dwho'",
+    );
+    expect(transport.sessionSetKey).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { enforcePolicy, matchToolGlob, policyDenialReason } from "../policy.js";
+import { TransportRegistry } from "../transport/registry.js";
+
+describe("matchToolGlob", () => {
+  it("matches exact names and wildcards", () => {
+    expect(matchToolGlob("llng_config_get", "llng_config_get")).toBe(true);
+    expect(matchToolGlob("llng_config_*", "llng_config_import")).toBe(true);
+    expect(matchToolGlob("llng_2fa_del????", "llng_2fa_delType")).toBe(true);
+    expect(matchToolGlob("llng_session_*", "llng_config_get")).toBe(false);
+    expect(matchToolGlob("llng.config", "llng_config")).toBe(false);
+  });
+});
+
+describe("policyDenialReason", () => {
+  it("allows everything without a policy", () => {
+    expect(policyDenialReason(undefined, "llng_config_import")).toBeUndefined();
+  });
+
+  it("refuses mutating tools on read-only instances", () => {
+    const policy = { readOnly: true };
+    expect(policyDenialReason(policy, "llng_config_import")).toBe("instance is read-only");
+    expect(policyDenialReason(policy, "llng_session_delete")).toBe("instance is read-only");
+    expect(policyDenialReason(policy, "llng_rotate_oidc_keys")).toBe("instance is read-only");
+    expect(policyDenialReason(policy, "llng_session_search")).toBeUndefined();
+    expect(policyDenialReason(policy, "llng_config_get")).toBeUndefined();
+  });
+
+  it("applies allow and deny lists, deny winning", () => {
+    const policy = { allow: ["llng_session_*", "llng_config_get"], deny: ["llng_session_delete"] };
+    expect(policyDenialReason(policy, "llng_session_search")).toBeUndefined();
+    expect(policyDenialReason(policy, "llng_config_get")).toBeUndefined();
+    expect(policyDenialReason(policy, "llng_session_delete")).toBe("denied by policy");
+    expect(policyDenialReason(policy, "llng_config_set")).toBe("not in the allow list");
+  });
+});
+
+describe("enforcePolicy", () => {
+  function setup() {
+    const handlers: Record<string, any> = {};
+    const server = {
+      tool: vi.fn((name: string, _desc: string, _schema: any, handler: any) => {
+        handlers[name] = handler;
+      }),
+    } as unknown as McpServer;
+    const registry = {
+      checkToolAllowed: vi.fn((tool: string, instance?: string) => {
+        if (tool === "llng_config_import" && instance !== "staging") {
+          throw new Error(`Tool '${tool}' is not allowed on instance 'prod': read-only`);
+        }
+      }),
+    } as unknown as TransportRegistry;
+    enforcePolicy(server, registry);
+    return { server, handlers, registry };
+  }
+
+  it("refuses forbidden calls without running the handler", async () => {
+    const { server, handlers } = setup();
+    const handler = vi.fn().mockResolvedValue({ content: [] });
+    server.tool("llng_config_import", "", { instance: z.string().optional() }, handler);
+
+    const result = await handlers.llng_config_import({ json: "{}" }, {});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(
+      "Error: Tool 'llng_config_import' is not allowed on instance 'prod': read-only",
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("runs allowed calls", async () => {
+    const { server, handlers } = setup();
+    const handler = vi.fn().mockResolvedValue({ content: [] });
+    server.tool("llng_config_import", "", { instance: z.string().optional() }, handler);
+
+    await handlers.llng_config_import({ json: "{}", instance: "staging" }, {});
+
+    expect(handler).toHaveBeenCalled();
+  });
+
+  it("skips tools without an instance parameter", async () => {
+    const { server, handlers, registry } = setup();
+    const handler = vi.fn().mockResolvedValue({ content: [] });
+    server.tool("llng_instances", "", {}, handler);
+
+    await handlers.llng_instances({}, {});
+
+    expect(handler).toHaveBeenCalled();
+    expect(registry.checkToolAllowed).not.toHaveBeenCalled();
+  });
+});
@@ -99,6 +99,24 @@ describe("TransportRegistry", () => {
     expect(() => registry.getOidcConfig("nope")).toThrow("Unknown instance 'nope'");
   });
 
+  it("checks tools against the instance policy", () => {
+    const config = makeConfig();
+    config.instances.prod.policy = { readOnly: true };
+    const registry = new TransportRegistry(config);
+    expect(() => registry.checkToolAllowed("llng_config_import")).toThrow(
+      "Tool 'llng_config_import' is not allowed on instance 'prod': instance is read-only",
+    );
+    expect(() => registry.checkToolAllowed("llng_config_get")).not.toThrow();
+    expect(() => registry.checkToolAllowed("llng_config_import", "staging")).not.toThrow();
+  });
+
+  it("lists instance policies", () => {
+    const config = makeConfig();
+    config.instances.prod.policy = { readOnly: true };
+    const registry = new TransportRegistry(config);
+    expect(registry.listInstances()[0].policy).toEqual({ readOnly: true });
+  });
+
   it("lists all instances", () => {
     const registry = new TransportRegistry(makeConfig());
     const list = registry.listInstances();
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { currentRequestSignal, enableCancellation, runWithRequestSignal } from "../cancellation.js";
+import { abortError, callSignal, withRetries } from "../transport/request-control.js";
+import {
+  TransientTransportError,
+  TransportCancelledError,
+  TransportTimeoutError,
+} from "../transport/interface.js";
+
+describe("withRetries", () => {
+  it("retries transient failures up to the configured count", async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new TransientTransportError("connection reset"))
+      .mockRejectedValueOnce(new TransportTimeoutError("ssh command", 10))
+      .mockResolvedValue("ok");
+
+    expect(await withRetries({ retries: 2, retryDelayMs: 1 }, operation)).toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up once the retries are exhausted", async () => {
+    const operation = vi.fn().mockRejectedValue(new TransientTransportError("unreachable"));
+
+    await expect(withRetries({ retries: 1, retryDelayMs: 1 }, operation)).rejects.toThrow(
+      "unreachable",
+    );
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry other errors", async () => {
+    const operation = vi.fn().mockRejectedValue(new Error("Session not found"));
+
+    await expect(withRetries({ retries: 3, retryDelayMs: 1 }, operation)).rejects.toThrow(
+      "Session not found",
+    );
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry by default", async () => {
+    const operation = vi.fn().mockRejectedValue(new TransientTransportError("unreachable"));
+
+    await expect(withRetries({}, operation)).rejects.toThrow("unreachable");
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("callSignal", () => {
+  it("is aborted by the timeout", async () => {
+    const signal = callSignal({ timeoutMs: 5 })!;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(signal.aborted).toBe(true);
+    expect(abortError(signal, "ssh command", { timeoutMs: 5 })).toBeInstanceOf(
+      TransportTimeoutError,
+    );
+  });
+
+  it("follows the cancellation of the current request", () => {
+    const controller = new AbortController();
+    const signal = runWithRequestSignal(controller.signal, () => callSignal({ timeoutMs: 0 }))!;
+    controller.abort();
+
+    expect(signal.aborted).toBe(true);
+    expect(abortError(signal, "kubectl command", {})).toBeInstanceOf(TransportCancelledError);
+  });
+
+  it("returns nothing when timeouts are disabled outside a request", () => {
+    expect(callSignal({ timeoutMs: 0 })).toBeUndefined();
+  });
+
+  it("has no timeout unless one is configured", () => {
+    expect(callSignal({})).toBeUndefined();
+  });
+});
+
+describe("enableCancellation", () => {
+  it("exposes the request signal to the code run by the handler", async () => {
+    const handlers: Record<string, any> = {};
+    const server = {
+      tool: vi.fn((name: string, _desc: string, _schema: any, handler: any) => {
+        handlers[name] = handler;
+      }),
+    } as unknown as McpServer;
+    enableCancellation(server);
+
+    let seen: AbortSignal | undefined;
+    server.tool("llng_config_info", "", {}, async () => {
+      await Promise.resolve();
+      seen = currentRequestSignal();
+      return { content: [] };
+    });
+    const controller = new AbortController();
+    await handlers.llng_config_info({}, { signal: controller.signal });
+
+    expect(seen).toBe(controller.signal);
+    expect(currentRequestSignal()).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+import { matchesCondition, querySessions } from "../session-query.js";
+import { ILlngTransport } from "../transport/interface.js";
+
+const SESSIONS = [
+  { _session_id: "a", uid: "dwho", ipAddr: "10.1.2.3", _utime: 1700000300 },
+  { _session_id: "b", uid: "rtyler", ipAddr: "192.168.0.5", _utime: 1700000100 },
+  { _session_id: "c", uid: "dwilliams", ipAddr: "10.9.0.1", _utime: 1700000200 },
+  { _session_id: "d", uid: "msmith", ipAddr: "2001:db8::1", _utime: 1700000400 },
+];
+
+function makeTransport(result: unknown = SESSIONS) {
+  return {
+    sessionSearch: vi.fn().mockResolvedValue(result),
+  } as unknown as ILlngTransport & { sessionSearch: ReturnType<typeof vi.fn> };
+}
+
+describe("matchesCondition", () => {
+  const session = SESSIONS[0];
+
+  it("supports equality and wildcards", () => {
+    expect(matchesCondition(session, { field: "uid", op: "eq", value: "dwho" })).toBe(true);
+    expect(matchesCondition(session, { field: "uid", op: "ne", value: "dwho" })).toBe(false);
+    expect(matchesCondition(session, { field: "uid", op: "wildcard", value: "dw*" })).toBe(true);
+    expect(matchesCondition(session, { field: "uid", op: "wildcard", value: "d?ho" })).toBe(true);
+    expect(matchesCondition(session, { field: "uid", op: "wildcard", value: "rt*" })).toBe(false);
+  });
+
+  it("compares numbers and ISO dates as epoch seconds", () => {
+    expect(matchesCondition(session, { field: "_utime", op: "gt", value: 1700000000 })).toBe(true);
+    expect(matchesCondition(session, { field: "_utime", op: "lte", value: "1700000300" })).toBe(
+      true,
+    );
+    expect(
+      matchesCondition(session, { field: "_utime", op: "lt", value: "2023-11-14T22:13:20Z" }),
+    ).toBe(false);
+  });
+
+  it("matches IPv4 and IPv6 CIDR ranges", () => {
+    expect(matchesCondition(session, { field: "ipAddr", op: "cidr", value: "10.0.0.0/8" })).toBe(
+      true,
+    );
+    expect(
+      matchesCondition(session, { field: "ipAddr", op: "cidr", value: "192.168.0.0/16" }),
+    ).toBe(false);
+    expect(
+      matchesCondition(SESSIONS[3], { field: "ipAddr", op: "cidr", value: "2001:db8::/32" }),
+    ).toBe(true);
+    expect(() =>
+      matchesCondition(session, { field: "ipAddr", op: "cidr", value: "nope/8" }),
+    ).toThrow("Invalid CIDR 'nope/8'");
+  });
+});
+
+describe("querySessions", () => {
+  it("passes plain searches through and paginates", async () => {
+    const transport = makeTransport();
+    const result = await querySessions(transport, {
+      filter: { where: { _session_kind: "SSO" } },
+      offset: 1,
+      limit: 2,
+    });
+
+    expect(transport.sessionSearch).toHaveBeenCalledWith({ where: { _session_kind: "SSO" } });
+    expect(result).toEqual({
+      total: 4,
+      offset: 1,
+      limit: 2,
+      sessions: [SESSIONS[1], SESSIONS[2]],
+    });
+  });
+
+  it("pushes equality conditions down and filters the rest client-side", async () => {
+    const transport = makeTransport();
+    const result = await querySessions(transport, {
+      filter: {},
+      conditions: [
+        { field: "_session_kind", op: "eq", value: "SSO" },
+        { field: "ipAddr", op: "cidr", value: "10.0.0.0/8" },
+      ],
+      sortBy: "_utime",
+      sortOrder: "desc",
+    });
+
+    expect(transport.sessionSearch).toHaveBeenCalledWith({ where: { _session_kind: "SSO" } });
+    expect((result as any).sessions.map((s: any) => s._session_id)).toEqual(["a", "c"]);
+  });
+
+  it("applies OR groups", async () => {
+    const transport = makeTransport();
+    const result = await querySessions(transport, {
+      filter: {},
+      anyOf: [
+        [{ field: "uid", op: "wildcard", value: "dw*" }],
+        [{ field: "_utime", op: "gte", value: 1700000400 }],
+      ],
+    });
+
+    expect((result as any).sessions.map((s: any) => s._session_id)).toEqual(["a", "c", "d"]);
+  });
+
+  it("fetches the fields needed by client-side conditions and projects them back", async () => {
+    const transport = makeTransport();
+    const result = await querySessions(transport, {
+      filter: { idOnly: true },
+      conditions: [{ field: "uid", op: "ne", value: "dwho" }],
+      sortBy: "uid",
+    });
+
+    expect(transport.sessionSearch).toHaveBeenCalledWith({
+      idOnly: undefined,
+      count: undefined,
+      select: ["_session_id", "uid"],
+    });
+    expect((result as any).sessions).toEqual(["c", "d", "b"]);
+  });
+
+  it("counts matching sessions", async () => {
+    const transport = makeTransport();
+    const result = await querySessions(transport, {
+      filter: { count: true },
+      conditions: [{ field: "ipAddr", op: "cidr", value: "10.0.0.0/8" }],
+    });
+    expect(result).toEqual({ count: 2 });
+
+    const backendCount = makeTransport(17);
+    expect(await querySessions(backendCount, { filter: { count: true } })).toEqual({ count: 17 });
+  });
+});
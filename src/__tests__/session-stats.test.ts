@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeSessionStats,
+  ipPrefix,
+  sessionStatsFields,
+  userAgentFamily,
+} from "../session-stats.js";
+
+const HOUR = 1700002800; // 2023-11-14T23:00:00Z
+
+const SESSIONS = [
+  { _auth: "Kerberos", ipAddr: "10.1.2.3", _utime: HOUR + 10 },
+  { _auth: "LDAP", ipAddr: "10.1.2.200", _utime: HOUR + 3600 + 5 },
+  { _auth: "Kerberos", ipAddr: "10.1.3.4", _utime: HOUR + 3600 + 20 },
+  { _auth: "Kerberos", ipAddr: "2001:db8:0:1::5", _utime: HOUR + 3600 + 30 },
+  { ipAddr: "bogus" },
+];
+
+describe("ipPrefix", () => {
+  it("groups IPv4 by /24 and IPv6 by /64", () => {
+    expect(ipPrefix("10.1.2.3")).toBe("10.1.2.0/24");
+    expect(ipPrefix("2001:db8:0:1::5")).toBe("2001:db8:0:1::/64");
+    expect(ipPrefix("2001:0db8::1")).toBe("2001:db8:0:0::/64");
+    expect(ipPrefix("bogus")).toBe("(none)");
+  });
+});
+
+describe("userAgentFamily", () => {
+  it("recognizes common browsers", () => {
+    expect(
+      userAgentFamily(
+        "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36",
+      ),
+    ).toBe("Chrome");
+    expect(
+      userAgentFamily("Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0"),
+    ).toBe("Firefox");
+    expect(userAgentFamily("curl/8.5.0")).toBe("curl");
+    expect(userAgentFamily("")).toBe("(none)");
+  });
+});
+
+describe("sessionStatsFields", () => {
+  it("maps derived groupings to their source attribute", () => {
+    expect(sessionStatsFields({ groupBy: "ipPrefix", bucket: "hour" })).toEqual([
+      "ipAddr",
+      "_utime",
+    ]);
+    expect(sessionStatsFields({ groupBy: "userAgentFamily" })).toEqual(["UA"]);
+    expect(sessionStatsFields({ groupBy: "_auth" })).toEqual(["_auth"]);
+  });
+});
+
+describe("computeSessionStats", () => {
+  it("counts values of an attribute, most frequent first", () => {
+    expect(computeSessionStats(SESSIONS, { groupBy: "_auth", top: 2 })).toEqual({
+      total: 5,
+      distinct: 3,
+      groups: [
+        { value: "Kerberos", count: 3 },
+        { value: "(none)", count: 1 },
+      ],
+    });
+  });
+
+  it("groups by derived IP prefix", () => {
+    const stats = computeSessionStats(SESSIONS, { groupBy: "ipPrefix", top: 1 });
+    expect(stats.groups).toEqual([{ value: "10.1.2.0/24", count: 2 }]);
+  });
+
+  it("counts per time bucket with the top values of each bucket", () => {
+    const stats = computeSessionStats(SESSIONS, { groupBy: "_auth", bucket: "hour", top: 1 });
+    expect(stats.buckets).toEqual([
+      { bucket: "(none)", count: 1, top: [{ value: "(none)", count: 1 }] },
+      {
+        bucket: "2023-11-14T23:00:00.000Z",
+        count: 1,
+        top: [{ value: "Kerberos", count: 1 }],
+      },
+      {
+        bucket: "2023-11-15T00:00:00.000Z",
+        count: 3,
+        top: [{ value: "Kerberos", count: 2 }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SnapshotStore, enableSnapshots } from "../snapshots.js";
+import { registerSnapshotTools } from "../tools/snapshots.js";
+import { TransportRegistry } from "../transport/registry.js";
+
+function config(cfgNum: number, extra: Record<string, any> = {}): string {
+  return JSON.stringify({ cfgNum, cfgAuthor: "admin", ...extra });
+}
+
+describe("SnapshotStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "llng-snapshots-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("saves, lists and loads snapshots per instance", () => {
+    const store = new SnapshotStore({ dir });
+    store.save("prod", config(3, { domain: "example.com" }));
+    store.save("prod", config(5));
+    store.save("staging", config(1));
+
+    expect(store.list("prod").map((s) => s.cfgNum)).toEqual([5, 3]);
+    expect(store.list("prod")[0].cfgAuthor).toBe("admin");
+    expect(store.has("prod", 3)).toBe(true);
+    expect(store.has("prod", 1)).toBe(false);
+    expect(JSON.parse(store.load("prod", 3)).domain).toBe("example.com");
+    expect(() => store.load("prod", 4)).toThrow("No snapshot of config 4 for instance 'prod'");
+  });
+
+  it("keeps only the newest snapshots", () => {
+    const store = new SnapshotStore({ dir, keep: 2 });
+    for (const cfgNum of [1, 2, 3, 4]) {
+      store.save("prod", config(cfgNum));
+    }
+    expect(store.list("prod").map((s) => s.cfgNum)).toEqual([4, 3]);
+  });
+
+  it("returns an empty list for unknown instances", () => {
+    const store = new SnapshotStore({ dir });
+    expect(store.list("nope")).toEqual([]);
+  });
+});
+
+describe("snapshot middleware and tools", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "llng-snapshots-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function setup() {
+    const handlers: Record<string, any> = {};
+    const server = {
+      tool: vi.fn((name: string, _desc: string, _schema: any, handler: any) => {
+        handlers[name] = handler;
+      }),
+    } as unknown as McpServer;
+    const transport = {
+      configInfo: vi.fn().mockResolvedValue({ cfgNum: 7 }),
+      configSave: vi.fn().mockResolvedValue(config(7, { domain: "example.org" })),
+      configRestore: vi.fn().mockResolvedValue(undefined),
+    };
+    const registry = {
+      getTransport: vi.fn().mockReturnValue(transport),
+      getDefaultInstance: vi.fn().mockReturnValue("default"),
+    } as unknown as TransportRegistry;
+    const store = new SnapshotStore({ dir });
+    return { server, handlers, transport, registry, store };
+  }
+
+  it("snapshots the configuration before a config change", async () => {
+    const { server, handlers, transport, registry, store } = setup();
+    enableSnapshots(server, registry, store);
+    const handler = vi.fn().mockResolvedValue({ content: [] });
+    server.tool("llng_config_set", "", {}, handler);
+
+    await handlers.llng_config_set({ keys: { domain: "example.net" } }, {});
+    await handlers.llng_config_set({ keys: { domain: "example.net" } }, {});
+
+    expect(store.list("default").map((s) => s.cfgNum)).toEqual([7]);
+    expect(transport.configSave).toHaveBeenCalledTimes(1);
+    expect(transport.configSave).toHaveBeenCalledWith(7);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips dry runs and read-only tools", async () => {
+    const { server, handlers, transport, registry, store } = setup();
+    enableSnapshots(server, registry, store);
+    server.tool("llng_config_get", "", {}, vi.fn().mockResolvedValue({ content: [] }));
+    server.tool("llng_config_merge", "", {}, vi.fn().mockResolvedValue({ content: [] }));
+
+    await handlers.llng_config_get({ keys: ["domain"] }, {});
+    await handlers.llng_config_merge({ json: "{}", dryRun: true }, {});
+
+    expect(transport.configInfo).not.toHaveBeenCalled();
+  });
+
+  it("snapshots confirmed tools only on the confirmed call", async () => {
+    const { server, handlers, transport, registry, store } = setup();
+    enableSnapshots(server, registry, store);
+    const handler = vi.fn().mockResolvedValue({ content: [] });
+    server.tool("llng_config_rollback", "", {}, handler);
+
+    await handlers.llng_config_rollback({}, {});
+    expect(transport.configInfo).not.toHaveBeenCalled();
+
+    await handlers.llng_config_rollback({ confirmToken: "t" }, {});
+    expect(store.list("default").map((s) => s.cfgNum)).toEqual([7]);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses the change when the snapshot fails", async () => {
+    const { server, handlers, transport, registry, store } = setup();
+    transport.configSave.mockRejectedValue(new Error("connection refused"));
+    enableSnapshots(server, registry, store);
+    const handler = vi.fn();
+    server.tool("llng_config_import", "", {}, handler);
+
+    const result = await handlers.llng_config_import({ json: "{}", confirmToken: "t" }, {});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(
+      "Error: Could not snapshot the configuration before change: connection refused",
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("diffs a snapshot against the live configuration", async () => {
+    const { server, handlers, registry, store } = setup();
+    store.save("default", config(6, { domain: "example.com" }));
+    registerSnapshotTools(server, registry, store);
+
+    const result = await handlers.llng_snapshot_diff({ cfgNum: 6 });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.from).toBe(6);
+    expect(parsed.to).toBe(7);
+    expect(parsed.changes).toEqual([
+      { op: "change", path: "domain", before: "example.com", after: "example.org" },
+    ]);
+  });
+
+  it("restores a snapshot after confirmation", async () => {
+    const { server, handlers, transport, registry, store } = setup();
+    store.save("default", config(6, { domain: "example.com" }));
+    registerSnapshotTools(server, registry, store);
+
+    const prompt = await handlers.llng_snapshot_restore({ cfgNum: 6 });
+    const parsed = JSON.parse(prompt.content[0].text);
+    expect(parsed.summary).toBe(
+      "will restore snapshot 6 over configuration 7 (0 added, 0 removed, 1 changed)",
+    );
+    expect(transport.configRestore).not.toHaveBeenCalled();
+
+    const result = await handlers.llng_snapshot_restore({
+      cfgNum: 6,
+      confirmToken: parsed.confirmToken,
+    });
+
+    expect(result.content[0].text).toBe("Snapshot 6 restored successfully");
+    const restored = JSON.parse(transport.configRestore.mock.calls[0][0]);
+    expect(restored.domain).toBe("example.com");
+    expect(restored.cfgLog).toBe("Restored from local snapshot 6");
+  });
+});
@@ -3,6 +3,7 @@ import { SshTransport } from "../transport/ssh.js";
 import { SshConfig } from "../config.js";
 import * as child_process from "child_process";
 import { EventEmitter } from "events";
+import { runWithRequestSignal } from "../cancellation.js";
 
 vi.mock("child_process");
 
@@ -14,6 +15,10 @@ class MockChildProcess extends EventEmitter {
   };
   stdout = new EventEmitter();
   stderr = new EventEmitter();
+  kill = vi.fn(() => {
+    process.nextTick(() => this.emit("close", null));
+    return true;
+  });
 
   constructor() {
     super();
@@ -138,6 +143,64 @@ Log      : Test config`;
       expect(spawnCalls[0].args).not.toContain("-log");
     });
 
+    it("configSet encodes booleans and numbers the LLNG way", async () => {
+      setupSpawnMock("");
+
+      const transport = new SshTransport(defaultConfig);
+      await transport.configSet({
+        portalDisplayLogout: false,
+        timeout: 7200,
+        issuerDBOpenIDConnectActivation: true,
+      });
+
+      expect(spawnCalls[0].args).toEqual([
+        "set",
+        "-yes",
+        "1",
+        "portalDisplayLogout",
+        "0",
+        "timeout",
+        "7200",
+        "issuerDBOpenIDConnectActivation",
+        "1",
+      ]);
+    });
+
+    it("configSet replaces nested values by restoring the edited config", async () => {
+      const current = {
+        cfgNum: 4,
+        domain: "example.com",
+        locationRules: { "app.example.com": { default: "accept", "^/admin": "deny" } },
+      };
+      let stdinContent = "";
+      vi.mocked(child_process.spawn).mockImplementation((cmd: string, args?: readonly string[]) => {
+        spawnCalls.push({ cmd, args: args ? [...args] : [] });
+        const proc = mockSpawn(args?.includes("save") ? JSON.stringify(current) : "");
+        proc.stdin.write = vi.fn((data: any) => {
+          stdinContent += data;
+          return true;
+        });
+        return proc as any;
+      });
+
+      const transport = new SshTransport(defaultConfig);
+      await transport.configSet(
+        { locationRules: { "app.example.com": { default: "accept" } }, domain: "example.org" },
+        "Open admin",
+      );
+
+      expect(spawnCalls.map((call) => call.args)).toEqual([
+        ["save"],
+        ["restore", "-yes", "1", "-"],
+      ]);
+      expect(JSON.parse(stdinContent)).toEqual({
+        cfgNum: 4,
+        domain: "example.org",
+        locationRules: { "app.example.com": { default: "accept" } },
+        cfgLog: "Open admin",
+      });
+    });
+
     it("sessionSearch builds correct args from SessionFilter", async () => {
       setupSpawnMock('[{"id": "session1"}]');
 
@@ -200,12 +263,25 @@ Log      : Test config`;
       expect(spawnCalls[0].args).toEqual(["test-email", "test@example.com"]);
     });
 
-    it("secondFactorsGet throws not supported error", async () => {
-      const transport = new SshTransport(defaultConfig);
-
-      await expect(transport.secondFactorsGet("john")).rejects.toThrow(
-        "secondFactorsGet is not supported via CLI. Use API mode.",
+    it("secondFactorsGet reads the persistent session", async () => {
+      setupSpawnMock(
+        JSON.stringify({
+          _2fDevices: JSON.stringify([{ type: "TOTP", name: "Phone", epoch: 1700000000 }]),
+        }),
       );
+
+      const transport = new SshTransport(defaultConfig);
+      const result = await transport.secondFactorsGet("john");
+
+      expect(spawnCalls[0].args).toEqual(["get", "john", "--persistent"]);
+      expect(result).toEqual([
+        {
+          id: Buffer.from("1700000000::TOTP::Phone").toString("base64url"),
+          type: "TOTP",
+          name: "Phone",
+          epoch: 1700000000,
+        },
+      ]);
     });
   });
 
@@ -229,6 +305,67 @@ Log      : Test config`;
       ]);
     });
 
+    it("lists every host as a node and runs commands on a given node", async () => {
+      const config: SshConfig = {
+        ...defaultConfig,
+        hosts: ["portal1.example.com", "portal2.example.com"],
+      };
+
+      setupSpawnMock("2.21.0\n");
+
+      const transport = new SshTransport(config);
+      expect(await transport.listNodes()).toEqual(["portal1.example.com", "portal2.example.com"]);
+      expect(() => transport.forNode("other.example.com")).toThrow(
+        "Unknown node 'other.example.com'",
+      );
+
+      await transport.getVersion();
+      await transport.forNode("portal2.example.com").getVersion();
+
+      expect(spawnCalls[0].args[0]).toBe("portal1.example.com");
+      expect(spawnCalls[1].args[0]).toBe("portal2.example.com");
+    });
+
+    it("reuses a master connection when multiplex is enabled", async () => {
+      setupSpawnMock("Num      : 42");
+
+      const transport = new SshTransport({
+        ...defaultConfig,
+        host: "server.example.com",
+        multiplex: true,
+        controlPersist: 300,
+      });
+      await transport.configInfo();
+
+      expect(spawnCalls[0].args.slice(0, 6)).toEqual([
+        "-o",
+        "ControlMaster=auto",
+        "-o",
+        expect.stringMatching(/^ControlPath=.*llng-mcp-%C$/),
+        "-o",
+        "ControlPersist=300",
+      ]);
+      expect(spawnCalls[0].args[6]).toBe("server.example.com");
+    });
+
+    it("deletes sessions by ID in a single SSH round-trip", async () => {
+      setupSpawnMock("");
+
+      const transport = new SshTransport({
+        ...defaultConfig,
+        host: "server.example.com",
+        sudo: "www-data",
+      });
+      await transport.sessionDelete(["id1", "id2"]);
+
+      expect(spawnCalls).toHaveLength(1);
+      expect(spawnCalls[0].args).toEqual([
+        "server.example.com",
+        "sudo -u 'www-data' '/usr/share/lemonldap-ng/bin/llngDeleteSession' 'id1' && " +
+          "sudo -u 'www-data' '/usr/share/lemonldap-ng/bin/llngDeleteSession' 'id2'",
+      ]);
+    });
+
     it("SSH with user and port", async () => {
       const config: SshConfig = {
         ...defaultConfig,
@@ -392,6 +529,28 @@ Log      : Test config`;
       expect(spawnCalls[0].args).not.toContain("-json");
     });
 
+    it("configSave with cfgNum passes -cfgNum before the command", async () => {
+      setupSpawnMock('{"cfgNum": 12}');
+
+      const transport = new SshTransport(defaultConfig);
+      await transport.configSave(12);
+
+      expect(spawnCalls[0].args).toEqual(["-cfgNum", "12", "save"]);
+    });
+
+    it("configHistory runs the bundled perl script with the limit", async () => {
+      setupSpawnMock('[{"cfgNum": 12, "cfgAuthor": "admin", "cfgDate": "1700000000"}]');
+
+      const transport = new SshTransport(defaultConfig);
+      const result = await transport.configHistory(5);
+
+      expect(spawnCalls[0].cmd).toBe("perl");
+      expect(spawnCalls[0].args[0]).toBe("-e");
+      expect(spawnCalls[0].args[1]).toContain("available()");
+      expect(spawnCalls[0].args[2]).toBe("5");
+      expect(result).toEqual([{ cfgNum: 12, cfgAuthor: "admin", cfgDate: "1700000000" }]);
+    });
+
     it("configRollback uses -yes 1 flag", async () => {
       setupSpawnMock("");
 
@@ -402,6 +561,35 @@ Log      : Test config`;
       expect(spawnCalls[0].args).toEqual(["rollback", "-yes", "1"]);
     });
 
+    it("configRollback with cfgNum restores that revision via stdin", async () => {
+      const outputs = [
+        "Num      : 418\nAuthor   : admin",
+        '{"cfgNum": 412, "domain": "example.com"}',
+        "",
+      ];
+      const stdinWrites: string[] = [];
+      vi.mocked(child_process.spawn).mockImplementation((cmd: string, args?: readonly string[]) => {
+        spawnCalls.push({ cmd, args: args ? [...args] : [] });
+        const proc = mockSpawn(outputs.shift() ?? "");
+        proc.stdin.write.mockImplementation((data: string) => stdinWrites.push(data));
+        return proc as any;
+      });
+
+      const transport = new SshTransport(defaultConfig);
+      await transport.configRollback(412);
+
+      expect(spawnCalls.map((call) => call.args)).toEqual([
+        ["info"],
+        ["-cfgNum", "412", "save"],
+        ["restore", "-yes", "1", "-"],
+      ]);
+      expect(JSON.parse(stdinWrites[0])).toEqual({
+        cfgNum: 412,
+        domain: "example.com",
+        cfgLog: "Rollback to config 412 (from 418)",
+      });
+    });
+
     it("sessionGet with backend passes correct arguments", async () => {
       setupSpawnMock('{"uid": "john", "ipAddr": "192.168.1.1"}');
 
@@ -499,36 +687,64 @@ Log      : Test config`;
       expect(result).toBe("[]");
     });
 
-    it("secondFactorsDelete throws not supported error", async () => {
-      const transport = new SshTransport(defaultConfig);
-
-      await expect(transport.secondFactorsDelete("john", ["totp1"])).rejects.toThrow(
-        "secondFactorsDelete is not supported via CLI. Use API mode.",
+    it("secondFactorsDelType rewrites _2fDevices in the persistent session", async () => {
+      setupSpawnMock(
+        JSON.stringify({
+          _2fDevices: JSON.stringify([
+            { type: "TOTP", name: "Phone", epoch: 1 },
+            { type: "WebAuthn", name: "Key", epoch: 2 },
+          ]),
+        }),
       );
-    });
 
-    it("secondFactorsDelType throws not supported error", async () => {
       const transport = new SshTransport(defaultConfig);
+      await transport.secondFactorsDelType("john", "TOTP");
 
-      await expect(transport.secondFactorsDelType("john", "TOTP")).rejects.toThrow(
-        "secondFactorsDelType is not supported via CLI. Use API mode.",
-      );
+      expect(spawnCalls).toHaveLength(2);
+      expect(spawnCalls[1].args).toEqual([
+        "setKey",
+        "john",
+        "_2fDevices",
+        JSON.stringify([{ type: "WebAuthn", name: "Key", epoch: 2 }]),
+        "--persistent",
+      ]);
     });
 
-    it("consentsGet throws not supported error", async () => {
+    it("consentsDelete rewrites _oidcConsents in the persistent session", async () => {
+      setupSpawnMock(
+        JSON.stringify({
+          _oidcConsents: JSON.stringify([
+            { rp: "rp1", epoch: 1, scope: "openid" },
+            { rp: "rp2", epoch: 2, scope: "openid email" },
+          ]),
+        }),
+      );
+
       const transport = new SshTransport(defaultConfig);
+      expect(await transport.consentsGet("john")).toEqual([
+        { id: "rp1", rp: "rp1", epoch: 1, scope: "openid" },
+        { id: "rp2", rp: "rp2", epoch: 2, scope: "openid email" },
+      ]);
+      await transport.consentsDelete("john", ["rp1"]);
 
-      await expect(transport.consentsGet("john")).rejects.toThrow(
-        "consentsGet is not supported via CLI. Use API mode.",
-      );
+      expect(spawnCalls[2].args).toEqual([
+        "setKey",
+        "john",
+        "_oidcConsents",
+        JSON.stringify([{ rp: "rp2", epoch: 2, scope: "openid email" }]),
+        "--persistent",
+      ]);
     });
 
-    it("consentsDelete throws not supported error", async () => {
+    it("consentsDelete fails when no consent matches", async () => {
+      setupSpawnMock(JSON.stringify({ _oidcConsents: "[]" }));
+
       const transport = new SshTransport(defaultConfig);
 
       await expect(transport.consentsDelete("john", ["consent1"])).rejects.toThrow(
-        "consentsDelete is not supported via CLI. Use API mode.",
+        "No consent matching consent1 for user 'john'",
       );
+      expect(spawnCalls).toHaveLength(1);
     });
   });
 
@@ -582,6 +798,135 @@ Log      : Test config`;
     });
   });
 
+  describe("bulk sessions", () => {
+    it("sessionBulkDelete sends every ID to one perl process", async () => {
+      let stdinContent = "";
+      const results = [
+        { id: "a", status: "ok" },
+        { id: "b", status: "error", error: "Session not found" },
+      ];
+      vi.mocked(child_process.spawn).mockImplementation((cmd: string, args?: readonly string[]) => {
+        spawnCalls.push({ cmd, args: args ? [...args] : [] });
+        const proc = mockSpawn(JSON.stringify(results));
+        proc.stdin.write = vi.fn((data: any) => {
+          stdinContent += data;
+          return true;
+        });
+        return proc as any;
+      });
+
+      const transport = new SshTransport(defaultConfig);
+      const result = await transport.sessionBulkDelete(["a", "b"], { refreshTokens: true });
+
+      expect(spawnCalls).toHaveLength(1);
+      expect(spawnCalls[0].cmd).toBe("perl");
+      expect(spawnCalls[0].args[0]).toBe("-e");
+      expect(JSON.parse(stdinContent)).toEqual({
+        action: "delete",
+        ids: ["a", "b"],
+        backend: "oidc",
+      });
+      expect(result).toEqual(results);
+    });
+
+    it("sessionBulkSetKey sends the pairs and the persistent backend", async () => {
+      let stdinContent = "";
+      vi.mocked(child_process.spawn).mockImplementation((cmd: string, args?: readonly string[]) => {
+        spawnCalls.push({ cmd, args: args ? [...args] : [] });
+        const proc = mockSpawn('[{"id":"8f7e6d","status":"ok"}]');
+        proc.stdin.write = vi.fn((data: any) => {
+          stdinContent += data;
+          return true;
+        });
+        return proc as any;
+      });
+
+      const transport = new SshTransport(defaultConfig);
+      await transport.sessionBulkSetKey(["8f7e6d"], { locked: "1" }, { persistent: true });
+
+      expect(JSON.parse(stdinContent)).toEqual({
+        action: "setKey",
+        ids: ["8f7e6d"],
+        pairs: { locked: "1" },
+        backend: "persistent",
+      });
+    });
+  });
+
+  describe("timeouts and cancellation", () => {
+    // A process that only ends when killed
+    const setupHangingSpawn = () => {
+      const procs: MockChildProcess[] = [];
+      vi.mocked(child_process.spawn).mockImplementation((cmd: string, args?: readonly string[]) => {
+        spawnCalls.push({ cmd, args: args ? [...args] : [] });
+        const proc = new MockChildProcess();
+        procs.push(proc);
+        return proc as any;
+      });
+      return procs;
+    };
+
+    it("kills a command running past timeoutMs", async () => {
+      const procs = setupHangingSpawn();
+      const transport = new SshTransport({ ...defaultConfig, timeoutMs: 10 });
+
+      await expect(transport.configInfo()).rejects.toThrow(
+        "lemonldap-ng-cli command timed out after 10 ms",
+      );
+      expect(procs[0].kill).toHaveBeenCalled();
+    });
+
+    it("kills the command when the client cancels the request", async () => {
+      const procs = setupHangingSpawn();
+      const transport = new SshTransport({ ...defaultConfig, host: "llng.example.com" });
+      const controller = new AbortController();
+
+      const pending = runWithRequestSignal(controller.signal, () => transport.configInfo());
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow("ssh command cancelled by the client");
+      expect(procs[0].kill).toHaveBeenCalled();
+    });
+
+    it("retries reads after an SSH connection failure", async () => {
+      let calls = 0;
+      vi.mocked(child_process.spawn).mockImplementation((cmd: string, args?: readonly string[]) => {
+        spawnCalls.push({ cmd, args: args ? [...args] : [] });
+        calls++;
+        return (
+          calls === 1
+            ? mockSpawn("", "ssh: connect to host llng.example.com: Connection refused", 255)
+            : mockSpawn('{"uid":"dwho"}')
+        ) as any;
+      });
+      const transport = new SshTransport({
+        ...defaultConfig,
+        host: "llng.example.com",
+        retries: 2,
+        retryDelayMs: 1,
+      });
+
+      expect(await transport.sessionGet("abc")).toEqual({ uid: "dwho" });
+      expect(spawnCalls).toHaveLength(2);
+    });
+
+    it("does not retry writes", async () => {
+      setupSpawnMock("", "ssh: connect to host llng.example.com: Connection refused", 255);
+      const transport = new SshTransport({
+        ...defaultConfig,
+        host: "llng.example.com",
+        retries: 2,
+        retryDelayMs: 1,
+      });
+
+      await expect(transport.sessionSetKey("abc", { uid: "rtyler" })).rejects.toThrow(
+        "Connection refused",
+      );
+      expect(spawnCalls).toHaveLength(1);
+    });
+  });
+
   describe("environment variables", () => {
     it("exec passes env vars to spawn in local mode", async () => {
       let spawnOptions: any;
@@ -1,4 +1,8 @@
 import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { brotliCompressSync } from "zlib";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerConfigTools } from "../tools/config.js";
 import { registerSessionTools } from "../tools/sessions.js";
@@ -7,7 +11,9 @@ import { registerConsentTools } from "../tools/consents.js";
 import { registerOidcTools } from "../tools/oidc.js";
 import { registerOidcRpTools } from "../tools/oidc-rp.js";
 import { registerCliUtilityTools } from "../tools/cli-utilities.js";
+import { registerUserTools } from "../tools/users.js";
 import { TransportRegistry } from "../transport/registry.js";
+import { SessionNotFoundError } from "../transport/interface.js";
 
 describe("Tool Registration", () => {
   function createMockServer() {
@@ -33,6 +39,7 @@ describe("Tool Registration", () => {
       configRestore: vi.fn().mockResolvedValue(undefined),
       configMerge: vi.fn().mockResolvedValue(undefined),
       configRollback: vi.fn().mockResolvedValue(undefined),
+      configHistory: vi.fn().mockResolvedValue([]),
       configUpdateCache: vi.fn().mockResolvedValue(undefined),
       sessionGet: vi.fn().mockResolvedValue({}),
       sessionSearch: vi.fn().mockResolvedValue([]),
@@ -40,6 +47,8 @@ describe("Tool Registration", () => {
       sessionSetKey: vi.fn().mockResolvedValue(undefined),
       sessionDelKey: vi.fn().mockResolvedValue(undefined),
       sessionBackup: vi.fn().mockResolvedValue("{}"),
+      sessionBulkDelete: vi.fn().mockResolvedValue([]),
+      sessionBulkSetKey: vi.fn().mockResolvedValue([]),
       secondFactorsGet: vi.fn().mockResolvedValue([]),
       secondFactorsDelete: vi.fn().mockResolvedValue(undefined),
       secondFactorsDelType: vi.fn().mockResolvedValue(undefined),
@@ -63,14 +72,39 @@ describe("Tool Registration", () => {
     return { registry, mockTransport };
   }
 
+  // Run `fn` with an attribute catalogue on disk
+  async function withCatalogue(fn: () => Promise<void>) {
+    const dir = mkdtempSync(join(tmpdir(), "llng-attributes-"));
+    const path = join(dir, "attributes.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        llngVersion: "2.21.0",
+        attributes: {
+          domain: { type: "text" },
+          portalSkin: { type: "text" },
+          timeout: { type: "int" },
+          exportedHeaders: { type: "keyTextContainer" },
+        },
+      }),
+    );
+    process.env.LLNG_ATTRIBUTES = path;
+    try {
+      await fn();
+    } finally {
+      delete process.env.LLNG_ATTRIBUTES;
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
   describe("Config Tools", () => {
-    it("should register 11 config tools", () => {
+    it("should register 18 config tools", () => {
       const { mockServer, toolNames } = createMockServer();
       const { registry } = createMockRegistry();
 
       registerConfigTools(mockServer, registry);
 
-      expect(toolNames).toHaveLength(14);
+      expect(toolNames).toHaveLength(18);
       expect(toolNames).toEqual([
         "llng_config_info",
         "llng_health",
@@ -86,9 +120,38 @@ describe("Tool Registration", () => {
         "llng_config_rollback",
         "llng_config_update_cache",
         "llng_config_test_email",
+        "llng_config_history",
+        "llng_config_diff",
+        "llng_config_explain",
+        "llng_config_promote",
       ]);
     });
 
+    it("should flush caches on every node with allNodes", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      const nodeA = { flushCache: vi.fn().mockResolvedValue({ config: { status: "ok" } }) };
+      const nodeB = { flushCache: vi.fn().mockRejectedValue(new Error("pod not ready")) };
+      (mockTransport as any).listNodes = vi.fn().mockResolvedValue(["pod-a", "pod-b"]);
+      (mockTransport as any).forNode = vi.fn((node: string) => (node === "pod-a" ? nodeA : nodeB));
+
+      registerConfigTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_flush_cache",
+      );
+      const result = await toolCall[3]({ target: "config", allNodes: true });
+
+      expect(nodeA.flushCache).toHaveBeenCalledWith("config");
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        nodes: [
+          { node: "pod-a", result: { config: { status: "ok" } } },
+          { node: "pod-b", error: "pod not ready" },
+        ],
+      });
+    });
+
     it("should handle transport errors with isError flag", async () => {
       const { mockServer } = createMockServer();
       const { registry, mockTransport } = createMockRegistry();
@@ -136,16 +199,368 @@ describe("Tool Registration", () => {
       expect(result.content[0].text).toBe(JSON.stringify(expectedInfo, null, 2));
       expect(mockTransport.configInfo).toHaveBeenCalled();
     });
+
+    it("should return a diff without writing when dryRun is set", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+
+      mockTransport.configSave = vi
+        .fn()
+        .mockResolvedValue(JSON.stringify({ cfgNum: 4, domain: "example.com" }));
+
+      registerConfigTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_config_merge",
+      );
+      const handler = toolCall[3];
+      const result = await handler({
+        json: JSON.stringify({
+          domain: "example.org",
+          locationRules: { app: { default: "accept" } },
+        }),
+        dryRun: true,
+      });
+
+      const output = JSON.parse(result.content[0].text);
+      expect(output.dryRun).toBe(true);
+      expect(output.changes).toEqual([
+        { op: "change", path: "domain", before: "example.com", after: "example.org" },
+        { op: "add", path: "locationRules", after: { app: { default: "accept" } } },
+      ]);
+      expect(mockTransport.configMerge).not.toHaveBeenCalled();
+    });
+
+    it("should diff two configuration revisions", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+
+      mockTransport.configSave = vi.fn(async (cfgNum?: number) =>
+        JSON.stringify(
+          cfgNum === 412
+            ? { cfgNum: 412, cfgAuthor: "dwho", portal: "https://auth.example.com" }
+            : { cfgNum: 418, cfgAuthor: "rtyler", portal: "https://sso.example.com" },
+        ),
+      );
+
+      registerConfigTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_config_diff",
+      );
+      const handler = toolCall[3];
+      const result = await handler({ from: 412, to: 418 });
+
+      expect(mockTransport.configSave).toHaveBeenCalledWith(412);
+      expect(mockTransport.configSave).toHaveBeenCalledWith(418);
+      const output = JSON.parse(result.content[0].text);
+      expect(output.from.cfgNum).toBe(412);
+      expect(output.to.cfgAuthor).toBe("rtyler");
+      expect(output.changes).toEqual([
+        {
+          op: "change",
+          path: "portal",
+          before: "https://auth.example.com",
+          after: "https://sso.example.com",
+        },
+      ]);
+    });
+  });
+
+  describe("Config Validation", () => {
+    it("should reject a typo before writing", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      registerConfigTools(mockServer, registry);
+      const handler = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_config_set",
+      )[3];
+
+      await withCatalogue(async () => {
+        const result = await handler({ keys: { portalSkn: "bootstrap" } });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toBe(
+          "Error: Invalid configuration:\n- portalSkn: unknown key (did you mean portalSkin?)",
+        );
+        expect(mockTransport.configSet).not.toHaveBeenCalled();
+
+        await handler({ keys: { portalSkn: "bootstrap" }, skipValidation: true });
+        expect(mockTransport.configSet).toHaveBeenCalled();
+      });
+    });
+
+    it("should validate merge snippets and addKey targets", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      registerConfigTools(mockServer, registry);
+      const find = (name: string) =>
+        (mockServer.tool as any).mock.calls.find((call: any) => call[0] === name)[3];
+
+      await withCatalogue(async () => {
+        const merged = await find("llng_config_merge")({ json: '{"timeout":"2h"}' });
+        expect(merged.content[0].text).toContain('timeout: expected an integer, got "2h"');
+        expect(mockTransport.configMerge).not.toHaveBeenCalled();
+
+        const added = await find("llng_config_addKey")({
+          key: "timeout",
+          subkey: "x",
+          value: "1",
+        });
+        expect(added.content[0].text).toContain("timeout: not a composite parameter");
+
+        await find("llng_config_addKey")({ key: "exportedHeaders", subkey: "app", value: "1" });
+        expect(mockTransport.configAddKey).toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("Config Validation without catalogue", () => {
+    it("should say that the input was not validated", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      registerConfigTools(mockServer, registry);
+      const find = (name: string) =>
+        (mockServer.tool as any).mock.calls.find((call: any) => call[0] === name)[3];
+      process.env.LLNG_ATTRIBUTES = "/nonexistent/attributes.json";
+      try {
+        const set = await find("llng_config_set")({ keys: { portalSkn: "bootstrap" } });
+        expect(mockTransport.configSet).toHaveBeenCalled();
+        expect(set.content[0].text).toBe(
+          "Config values updated successfully (not validated: no LLNG attribute catalogue found, see npm run build-attributes)",
+        );
+
+        const merged = await find("llng_config_merge")({ json: "{}" });
+        expect(merged.content[0].text).toContain("not validated");
+
+        await withCatalogue(async () => {
+          const validated = await find("llng_config_set")({ keys: { timeout: 3600 } });
+          expect(validated.content[0].text).toBe("Config values updated successfully");
+        });
+      } finally {
+        delete process.env.LLNG_ATTRIBUTES;
+      }
+    });
+  });
+
+  describe("Config Explain", () => {
+    it("should combine the live value, the catalogue and the docs", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.configGet.mockResolvedValue({ portalSkin: "dark" });
+      registerConfigTools(mockServer, registry);
+      const handler = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_config_explain",
+      )[3];
+
+      const dir = mkdtempSync(join(tmpdir(), "llng-docs-"));
+      const indexPath = join(dir, "index.json.br");
+      writeFileSync(
+        indexPath,
+        brotliCompressSync(
+          JSON.stringify([
+            {
+              id: "a",
+              file: "portalcustom.rst",
+              section: "Skins",
+              text: "Set portalSkin to choose the skin. portalSkin defaults to bootstrap.",
+              embedding: [],
+            },
+            {
+              id: "b",
+              file: "other.rst",
+              section: "Other",
+              text: "portalSkinBackground is another key.",
+              embedding: [],
+            },
+          ]),
+        ),
+      );
+      process.env.LLNG_DOC_INDEX = indexPath;
+      try {
+        await withCatalogue(async () => {
+          const result = await handler({ key: "portalSkin" });
+          const parsed = JSON.parse(result.content[0].text);
+
+          expect(mockTransport.configGet).toHaveBeenCalledWith(["portalSkin"]);
+          expect(parsed).toEqual({
+            key: "portalSkin",
+            value: "dark",
+            default: null,
+            type: "text",
+            docs: [
+              {
+                file: "portalcustom.rst",
+                section: "Skins",
+                excerpt: "Set portalSkin to choose the skin. portalSkin defaults to bootstrap.",
+              },
+            ],
+          });
+
+          const typo = JSON.parse((await handler({ key: "portalSkn" })).content[0].text);
+          expect(typo.unknownKey).toBe(true);
+          expect(typo.didYouMean).toEqual(["portalSkin"]);
+        });
+      } finally {
+        delete process.env.LLNG_DOC_INDEX;
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Config Promote", () => {
+    function setupPromote() {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      const staging = {
+        configInfo: vi.fn().mockResolvedValue({ cfgNum: 4 }),
+        configSave: vi.fn().mockResolvedValue(
+          JSON.stringify({
+            cfgNum: 4,
+            oidcRPMetaDataOptions: {
+              app: {
+                oidcRPMetaDataOptionsClientID: "app",
+                oidcRPMetaDataOptionsClientSecret: "staging-secret",
+                oidcRPMetaDataOptionsRedirectUris: "https://app.staging.example.com/cb",
+              },
+            },
+            oidcRPMetaDataExportedVars: { app: { email: "mail" } },
+          }),
+        ),
+      };
+      mockTransport.configInfo.mockResolvedValue({ cfgNum: 9 });
+      mockTransport.configSave.mockResolvedValue(
+        JSON.stringify({
+          cfgNum: 9,
+          oidcRPMetaDataOptions: {
+            app: {
+              oidcRPMetaDataOptionsClientID: "app",
+              oidcRPMetaDataOptionsClientSecret: "prod-secret",
+            },
+          },
+        }),
+      );
+      (registry.getTransport as any).mockImplementation((instance?: string) =>
+        instance === "staging" ? staging : mockTransport,
+      );
+      (registry as any).getDefaultInstance = vi.fn().mockReturnValue("prod");
+      (registry as any).checkToolAllowed = vi.fn();
+      registerConfigTools(mockServer, registry);
+      const handler = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_config_promote",
+      )[3];
+      return { handler, mockTransport, registry };
+    }
+
+    it("should preview the promotion and write it once confirmed", async () => {
+      const { handler, mockTransport } = setupPromote();
+      const args = {
+        source: "staging",
+        oidcRPs: ["app"],
+        rewrite: [{ from: "*.staging.example.com", to: "*.example.com" }],
+        secrets: "exclude",
+      };
+
+      const prompt = JSON.parse((await handler(args)).content[0].text);
+      expect(prompt.summary).toBe(
+        "will promote 1 item(s) from 'staging' to 'prod' (2 added, 0 removed, 0 changed)",
+      );
+      expect(prompt.details.excludedSecrets).toEqual([
+        "oidcRPMetaDataOptions/app/oidcRPMetaDataOptionsClientSecret",
+      ]);
+      expect(prompt.details.changes).toContainEqual({
+        op: "add",
+        path: "oidcRPMetaDataOptions/app/oidcRPMetaDataOptionsRedirectUris",
+        after: "https://app.example.com/cb",
+      });
+      expect(mockTransport.configRestore).not.toHaveBeenCalled();
+
+      await handler({ ...args, confirmToken: prompt.confirmToken });
+      const written = JSON.parse(mockTransport.configRestore.mock.calls[0][0]);
+      expect(written.cfgLog).toBe("Promoted from staging");
+      expect(written.oidcRPMetaDataOptions.app.oidcRPMetaDataOptionsClientSecret).toBe(
+        "prod-secret",
+      );
+      expect(written.oidcRPMetaDataExportedVars).toEqual({ app: { email: "mail" } });
+    });
+
+    it("should return regenerated secrets", async () => {
+      const { handler, mockTransport } = setupPromote();
+      const args = { source: "staging", oidcRPs: ["app"], secrets: "regenerate" };
+
+      const prompt = JSON.parse((await handler(args)).content[0].text);
+      expect(prompt.details.changes).toContainEqual({
+        op: "change",
+        path: "oidcRPMetaDataOptions/app/oidcRPMetaDataOptionsClientSecret",
+        before: "prod-secret",
+        after: "<regenerated>",
+      });
+
+      const result = JSON.parse(
+        (await handler({ ...args, confirmToken: prompt.confirmToken })).content[0].text,
+      );
+      const secret =
+        result.regeneratedSecrets["oidcRPMetaDataOptions/app/oidcRPMetaDataOptionsClientSecret"];
+      expect(secret).toMatch(/^[\w-]{32}$/);
+      const written = JSON.parse(mockTransport.configRestore.mock.calls[0][0]);
+      expect(written.oidcRPMetaDataOptions.app.oidcRPMetaDataOptionsClientSecret).toBe(secret);
+    });
+
+    it("should refuse the write when the promoted keys moved on the target", async () => {
+      const { handler, mockTransport } = setupPromote();
+      const args = { source: "staging", oidcRPs: ["app"] };
+      const prompt = JSON.parse((await handler(args)).content[0].text);
+
+      mockTransport.configInfo.mockResolvedValue({ cfgNum: 10 });
+      const base = await mockTransport.configSave();
+      mockTransport.configSave.mockImplementation(async (cfgNum?: number) =>
+        cfgNum === 10 ? JSON.stringify({ cfgNum: 10, oidcRPMetaDataOptions: { other: {} } }) : base,
+      );
+      const result = await handler({ ...args, confirmToken: prompt.confirmToken });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        "Config conflict: expected cfgNum 9 but latest is 10 and these keys changed meanwhile: oidcRPMetaDataOptions",
+      );
+      expect(mockTransport.configRestore).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to read a source whose policy denies config export", async () => {
+      const { handler, mockTransport, registry } = setupPromote();
+      (registry.checkToolAllowed as any).mockImplementation((tool: string, instance?: string) => {
+        if (instance === "staging") {
+          throw new Error(`Tool '${tool}' is not allowed on instance 'staging': denied by policy`);
+        }
+      });
+
+      const result = await handler({ source: "staging", oidcRPs: ["app"] });
+
+      expect(registry.checkToolAllowed).toHaveBeenCalledWith("llng_config_export", "staging");
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(
+        "Error: Tool 'llng_config_export' is not allowed on instance 'staging': denied by policy",
+      );
+      expect(mockTransport.configRestore).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to promote an instance onto itself", async () => {
+      const { handler } = setupPromote();
+
+      const result = await handler({ source: "prod", keys: ["portal"] });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe("Error: Source and target instances must differ");
+    });
   });
 
   describe("Session Tools", () => {
-    it("should register 6 session tools", () => {
+    it("should register 9 session tools", () => {
       const { mockServer, toolNames } = createMockServer();
       const { registry } = createMockRegistry();
 
       registerSessionTools(mockServer, registry);
 
-      expect(toolNames).toHaveLength(6);
+      expect(toolNames).toHaveLength(9);
       expect(toolNames).toEqual([
         "llng_session_get",
         "llng_session_search",
@@ -153,9 +568,174 @@ describe("Tool Registration", () => {
         "llng_session_setKey",
         "llng_session_delKey",
         "llng_session_backup",
+        "llng_session_stats",
+        "llng_session_bulk_delete",
+        "llng_session_bulk_setKey",
       ]);
     });
 
+    it("should report per-ID results with llng_session_bulk_delete", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionBulkDelete.mockResolvedValue([
+        { id: "a", status: "ok" },
+        { id: "b", status: "error", error: "Session not found" },
+      ]);
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_bulk_delete",
+      );
+      const result = await toolCall[3]({ ids: ["a", "b"], backend: "oidc" });
+
+      expect(mockTransport.sessionBulkDelete).toHaveBeenCalledWith(["a", "b"], {
+        backend: "oidc",
+        refreshTokens: undefined,
+        persistent: undefined,
+      });
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        total: 2,
+        succeeded: 1,
+        failed: 1,
+        results: [
+          { id: "a", status: "ok" },
+          { id: "b", status: "error", error: "Session not found" },
+        ],
+      });
+    });
+
+    it("should ask confirmation before a bulk delete by filter", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionSearch.mockResolvedValue([{ _session_id: "a" }, { _session_id: "b" }]);
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_bulk_delete",
+      );
+      const handler = toolCall[3];
+      const prompt = await handler({ where: { uid: "dwho" }, kind: "SSO" });
+      const parsed = JSON.parse(prompt.content[0].text);
+
+      expect(parsed.summary).toBe("will delete 2 session(s) matching uid=dwho, _session_kind=SSO");
+      expect(mockTransport.sessionBulkDelete).not.toHaveBeenCalled();
+
+      await handler({ where: { uid: "dwho" }, kind: "SSO", confirmToken: parsed.confirmToken });
+      expect(mockTransport.sessionBulkDelete).toHaveBeenCalledWith(["a", "b"], expect.any(Object));
+    });
+
+    it("should delete the sessions counted in the confirmation summary", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionSearch.mockResolvedValueOnce(["a", "b"]).mockResolvedValue(["a", "c"]);
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_bulk_delete",
+      );
+      const handler = toolCall[3];
+      const prompt = await handler({ where: { uid: "dwho" } });
+      const { confirmToken } = JSON.parse(prompt.content[0].text);
+      await handler({ where: { uid: "dwho" }, confirmToken });
+
+      expect(mockTransport.sessionSearch).toHaveBeenCalledTimes(1);
+      expect(mockTransport.sessionBulkDelete).toHaveBeenCalledWith(["a", "b"], expect.any(Object));
+    });
+
+    it("should refuse ids combined with where/kind in bulk tools", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_bulk_delete",
+      );
+      const result = await toolCall[3]({ ids: ["a"], kind: "SSO" });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe("Error: Use either ids or where/kind, not both");
+      expect(mockTransport.sessionSearch).not.toHaveBeenCalled();
+    });
+
+    it("should set keys in every matching session with llng_session_bulk_setKey", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionSearch.mockResolvedValue(["a", "b"]);
+      mockTransport.sessionBulkSetKey.mockResolvedValue([
+        { id: "a", status: "ok" },
+        { id: "b", status: "ok" },
+      ]);
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_bulk_setKey",
+      );
+      const result = await toolCall[3]({ where: { uid: "dwho" }, keys: { locked: "1" } });
+
+      expect(mockTransport.sessionSearch).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { uid: "dwho" }, idOnly: true }),
+      );
+      expect(mockTransport.sessionBulkSetKey).toHaveBeenCalledWith(
+        ["a", "b"],
+        { locked: "1" },
+        expect.any(Object),
+      );
+      expect(result.isError).toBeUndefined();
+      expect(JSON.parse(result.content[0].text).succeeded).toBe(2);
+    });
+
+    it("should require ids or a filter for bulk tools", async () => {
+      const { mockServer } = createMockServer();
+      const { registry } = createMockRegistry();
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_bulk_setKey",
+      );
+      const result = await toolCall[3]({ keys: { locked: "1" } });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Either ids or where/kind is required");
+    });
+
+    it("should count sessions by attribute with llng_session_stats", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionSearch.mockResolvedValue([
+        { _session_id: "a", _auth: "Kerberos" },
+        { _session_id: "b", _auth: "LDAP" },
+        { _session_id: "c", _auth: "Kerberos" },
+      ]);
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_stats",
+      );
+      const result = await toolCall[3]({ groupBy: "_auth", kind: "SSO", top: 10 });
+
+      expect(mockTransport.sessionSearch).toHaveBeenCalledWith({
+        where: { _session_kind: "SSO" },
+        select: ["_auth"],
+        backend: undefined,
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        total: 3,
+        distinct: 2,
+        groups: [
+          { value: "Kerberos", count: 2 },
+          { value: "LDAP", count: 1 },
+        ],
+      });
+    });
+
     it("should handle transport errors with isError flag", async () => {
       const { mockServer } = createMockServer();
       const { registry, mockTransport } = createMockRegistry();
@@ -469,6 +1049,39 @@ describe("Tool Registration", () => {
       expect(result.content[0].text).toContain("llng_oidc_issuer_enable");
     });
 
+    it("should delete an RP in a single config write", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+
+      mockTransport.configSave = vi.fn().mockResolvedValue(
+        JSON.stringify({
+          cfgNum: 7,
+          oidcRPMetaDataOptions: { myApp: { oidcRPMetaDataOptionsClientID: "client1" }, other: {} },
+          oidcRPMetaDataExportedVars: { myApp: { email: "mail" } },
+          oidcRPMetaDataMacros: { other: {} },
+        }),
+      );
+
+      registerOidcRpTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_oidc_rp_delete",
+      );
+      const handler = toolCall[3];
+      const prompt = await handler({ confKey: "myApp" });
+      const { confirmToken } = JSON.parse(prompt.content[0].text);
+      const result = await handler({ confKey: "myApp", confirmToken });
+
+      expect(result.content[0].text).toContain("deleted successfully");
+      expect(mockTransport.configDelKey).not.toHaveBeenCalled();
+      expect(mockTransport.configSet).toHaveBeenCalledTimes(1);
+      expect(mockTransport.configSet).toHaveBeenCalledWith(
+        { oidcRPMetaDataOptions: { other: {} }, oidcRPMetaDataExportedVars: {} },
+        "Deleted OIDC RP 'myApp'",
+        { expectedCfgNum: 7 },
+      );
+    });
+
     it("should add default IDTokenSignAlg when issuer is enabled", async () => {
       const { mockServer } = createMockServer();
       const { registry, mockTransport } = createMockRegistry();
@@ -572,7 +1185,11 @@ describe("Tool Registration", () => {
         (call: any) => call[0] === "llng_purge_central_cache",
       );
       const handler = toolCall[3];
-      await handler({ debug: true, force: true, json: true });
+      const prompt = await handler({ debug: true, force: true, json: true });
+      const { confirmToken } = JSON.parse(prompt.content[0].text);
+      expect(mockTransport.execScript).not.toHaveBeenCalled();
+
+      await handler({ debug: true, force: true, json: true, confirmToken });
 
       expect(mockTransport.execScript).toHaveBeenCalledWith("purgeCentralCache", [
         "--debug",
@@ -582,6 +1199,281 @@ describe("Tool Registration", () => {
     });
   });
 
+  describe("User Tools", () => {
+    it("should preview an offboarding without deleting anything", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionSearch.mockResolvedValueOnce(["sso1", "sso2"]).mockResolvedValueOnce([]);
+      mockTransport.secondFactorsGet.mockResolvedValue([{ id: "t1", type: "TOTP" }]);
+      mockTransport.consentsGet.mockResolvedValue([{ id: "rp1" }]);
+      mockTransport.sessionGet.mockResolvedValue({ _session_uid: "dwho" });
+
+      registerUserTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_user_offboard",
+      );
+      const result = await toolCall[3]({ uid: "dwho", dryRun: true });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        uid: "dwho",
+        dryRun: true,
+        steps: [
+          { step: "sso_sessions", status: "planned", count: 2 },
+          { step: "refresh_tokens", status: "nothing", count: 0 },
+          { step: "second_factors", status: "planned", count: 1 },
+          { step: "consents", status: "planned", count: 1 },
+          { step: "persistent_session", status: "planned", count: 1 },
+        ],
+      });
+      expect(mockTransport.sessionDelete).not.toHaveBeenCalled();
+      expect(mockTransport.secondFactorsDelType).not.toHaveBeenCalled();
+      expect(mockTransport.consentsDelete).not.toHaveBeenCalled();
+    });
+
+    it("should offboard a user and report failed steps", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionSearch
+        .mockResolvedValueOnce([{ _session_id: "sso1" }])
+        .mockResolvedValueOnce(["rt1"]);
+      mockTransport.secondFactorsGet.mockResolvedValue([
+        { id: "t1", type: "TOTP" },
+        { id: "t2", type: "TOTP" },
+        { id: "u1", type: "U2F" },
+      ]);
+      mockTransport.consentsGet.mockRejectedValue(new Error("Not supported"));
+      mockTransport.sessionGet.mockRejectedValue(new SessionNotFoundError("dwho"));
+
+      registerUserTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_user_offboard",
+      );
+      const result = await toolCall[3]({ uid: "dwho" });
+      const report = JSON.parse(result.content[0].text);
+
+      expect(result.isError).toBe(true);
+      expect(report.steps).toEqual([
+        { step: "sso_sessions", status: "done", count: 1 },
+        { step: "refresh_tokens", status: "done", count: 1 },
+        { step: "second_factors", status: "done", count: 3 },
+        { step: "consents", status: "error", error: "Not supported" },
+        { step: "persistent_session", status: "nothing", count: 0 },
+      ]);
+      expect(mockTransport.sessionDelete).toHaveBeenCalledWith(["sso1"]);
+      expect(mockTransport.sessionDelete).toHaveBeenCalledWith(["rt1"], { refreshTokens: true });
+      expect(mockTransport.secondFactorsDelType).toHaveBeenCalledWith("dwho", "TOTP");
+      expect(mockTransport.secondFactorsDelType).toHaveBeenCalledWith("dwho", "U2F");
+    });
+
+    it("should report a failed persistent session lookup as an error", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionGet.mockRejectedValue(new Error("ssh: connect to host llng: timed out"));
+
+      registerUserTools(mockServer, registry);
+
+      const offboard = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_user_offboard",
+      )[3];
+      const report = JSON.parse((await offboard({ uid: "dwho" })).content[0].text);
+      expect(report.steps.at(-1)).toEqual({
+        step: "persistent_session",
+        status: "error",
+        error: "ssh: connect to host llng: timed out",
+      });
+      expect(mockTransport.sessionDelete).not.toHaveBeenCalledWith(["dwho"], { persistent: true });
+
+      const profile = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_user_profile",
+      )[3];
+      const result = JSON.parse((await profile({ uid: "dwho" })).content[0].text);
+      expect(result.persistentSession).toBeUndefined();
+      expect(result.errors.persistentSession).toBe("ssh: connect to host llng: timed out");
+    });
+  });
+
+  describe("User Profile", () => {
+    it("should consolidate user data and report failing sections", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.execScript.mockResolvedValue('{"uid":"dwho","mail":"dwho@badwolf.org"}');
+      mockTransport.sessionSearch
+        .mockResolvedValueOnce([{ _session_id: "s1", ipAddr: "10.0.0.1", _auth: "LDAP" }])
+        .mockResolvedValueOnce([]);
+      mockTransport.sessionGet.mockResolvedValue({
+        _session_uid: "dwho",
+        _2fDevices: "[]",
+        _loginHistory: { successLogin: [] },
+      });
+      mockTransport.secondFactorsGet.mockRejectedValue(new Error("Not supported"));
+      mockTransport.consentsGet.mockResolvedValue([{ id: "rp1" }]);
+
+      registerUserTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_user_profile",
+      );
+      const result = await toolCall[3]({ uid: "dwho" });
+      const profile = JSON.parse(result.content[0].text);
+
+      expect(result.isError).toBeUndefined();
+      expect(mockTransport.execScript).toHaveBeenCalledWith("llngUserAttributes", [
+        "--username",
+        "dwho",
+      ]);
+      expect(mockTransport.sessionSearch).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { uid: "dwho" }, refreshTokens: true }),
+      );
+      expect(profile).toEqual({
+        uid: "dwho",
+        attributes: { uid: "dwho", mail: "dwho@badwolf.org" },
+        sessions: [{ _session_id: "s1", ipAddr: "10.0.0.1", _auth: "LDAP" }],
+        persistentSession: { _session_uid: "dwho", _loginHistory: { successLogin: [] } },
+        consents: [{ id: "rp1" }],
+        refreshTokens: [],
+        errors: { secondFactors: "Not supported" },
+      });
+    });
+  });
+
+  describe("Confirmation Tokens", () => {
+    it("should roll back to the revision shown in the confirmation summary", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.configSave = vi.fn(async (cfgNum?: number) =>
+        JSON.stringify({ cfgNum: cfgNum ?? 8, portal: `https://auth${cfgNum ?? 8}.example.com/` }),
+      );
+      mockTransport.configInfo.mockResolvedValue({ cfgNum: 8 });
+
+      registerConfigTools(mockServer, registry);
+
+      const handler = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_config_rollback",
+      )[3];
+      const prompt = await handler({});
+      const { summary, confirmToken } = JSON.parse(prompt.content[0].text);
+      expect(summary).toContain("will restore configuration 7 over 8");
+
+      await handler({ confirmToken });
+      expect(mockTransport.configRollback).toHaveBeenCalledWith(7);
+    });
+
+    it("should refuse a confirmed rollback when the configuration moved", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.configSave = vi.fn(async (cfgNum?: number) =>
+        JSON.stringify({ cfgNum: cfgNum ?? 8 }),
+      );
+      mockTransport.configInfo.mockResolvedValue({ cfgNum: 9 });
+
+      registerConfigTools(mockServer, registry);
+
+      const handler = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_config_rollback",
+      )[3];
+      const prompt = await handler({});
+      const { confirmToken } = JSON.parse(prompt.content[0].text);
+      const result = await handler({ confirmToken });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("expected cfgNum 8 but latest is 9");
+      expect(mockTransport.configRollback).not.toHaveBeenCalled();
+    });
+
+    it("should summarize a where-based session delete before running it", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionSearch.mockResolvedValue(
+        Array.from({ length: 1243 }, (_, i) => `s${i}`),
+      );
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_delete",
+      );
+      const handler = toolCall[3];
+      const prompt = await handler({ where: { uid: "*" } });
+      const parsed = JSON.parse(prompt.content[0].text);
+
+      expect(parsed.confirmationRequired).toBe(true);
+      expect(parsed.summary).toBe("will delete 1,243 session(s) matching uid=*");
+      expect(mockTransport.sessionSearch).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { uid: "*" }, idOnly: true }),
+      );
+      expect(mockTransport.sessionDelete).not.toHaveBeenCalled();
+
+      const result = await handler({ where: { uid: "*" }, confirmToken: parsed.confirmToken });
+      expect(result.content[0].text).toBe("Successfully deleted matching sessions");
+      expect(mockTransport.sessionDelete).toHaveBeenCalled();
+    });
+
+    it("should not ask confirmation for deletes by ID", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_delete",
+      );
+      await toolCall[3]({ ids: ["abc"] });
+
+      expect(mockTransport.sessionDelete).toHaveBeenCalledWith(["abc"], expect.any(Object));
+    });
+
+    it("should refuse a token issued for other arguments", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_delete",
+      );
+      const handler = toolCall[3];
+      const prompt = await handler({ where: { uid: "dwho" } });
+      const { confirmToken } = JSON.parse(prompt.content[0].text);
+
+      const result = await handler({ where: { uid: "*" }, confirmToken });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("does not match these arguments");
+      expect(mockTransport.sessionDelete).not.toHaveBeenCalled();
+    });
+
+    it("should show the config diff before an import", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.configSave.mockResolvedValue(
+        JSON.stringify({ cfgNum: 5, domain: "example.com" }),
+      );
+
+      registerConfigTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_config_import",
+      );
+      const handler = toolCall[3];
+      const json = JSON.stringify({ domain: "example.org" });
+      const prompt = await handler({ json });
+      const parsed = JSON.parse(prompt.content[0].text);
+
+      expect(parsed.summary).toBe(
+        "will replace the whole configuration (0 added, 0 removed, 1 changed)",
+      );
+      expect(parsed.details.changes).toEqual([
+        { op: "change", path: "domain", before: "example.com", after: "example.org" },
+      ]);
+      expect(mockTransport.configRestore).not.toHaveBeenCalled();
+
+      await handler({ json, confirmToken: parsed.confirmToken });
+      expect(mockTransport.configRestore).toHaveBeenCalledWith(json);
+    });
+  });
+
   describe("Error Handling", () => {
     it("should wrap non-Error objects in error responses", async () => {
       const { mockServer } = createMockServer();
@@ -641,10 +1533,13 @@ describe("Tool Registration", () => {
         (call: any) => call[0] === "llng_config_set",
       );
       const handler = toolCall[3];
-      const result = await handler({ keys: { domain: "example.com" } });
 
-      expect(result.isError).toBeUndefined();
-      expect(result.content[0].text).toBe("Config values updated successfully");
+      await withCatalogue(async () => {
+        const result = await handler({ keys: { domain: "example.com" } });
+
+        expect(result.isError).toBeUndefined();
+        expect(result.content[0].text).toBe("Config values updated successfully");
+      });
     });
 
     it("should include IDs in success messages", async () => {
@@ -681,6 +1576,7 @@ describe("Tool Registration", () => {
       expect(mockTransport.configSet).toHaveBeenCalledWith(
         { domain: "example.com" },
         "Updated domain",
+        { expectedCfgNum: undefined },
       );
     });
 
@@ -734,5 +1630,31 @@ describe("Tool Registration", () => {
         idOnly: undefined,
       });
     });
+
+    it("should return session search results as a page", async () => {
+      const { mockServer } = createMockServer();
+      const { registry, mockTransport } = createMockRegistry();
+      mockTransport.sessionSearch.mockResolvedValue([
+        { _session_id: "a", ipAddr: "10.0.0.1" },
+        { _session_id: "b", ipAddr: "192.168.0.1" },
+      ]);
+
+      registerSessionTools(mockServer, registry);
+
+      const toolCall = (mockServer.tool as any).mock.calls.find(
+        (call: any) => call[0] === "llng_session_search",
+      );
+      const result = await toolCall[3]({
+        filters: [{ field: "ipAddr", op: "cidr", value: "10.0.0.0/8" }],
+        limit: 10,
+      });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        total: 1,
+        offset: 0,
+        limit: 10,
+        sessions: [{ _session_id: "a", ipAddr: "10.0.0.1" }],
+      });
+    });
   });
 });
@@ -0,0 +1,174 @@
+import { appendFileSync, mkdirSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { homedir, userInfo } from "os";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AuditConfig } from "./config.js";
+import { isConfirmationPrompt } from "./confirm.js";
+import { useToolMiddleware } from "./middleware.js";
+import { CONFIG_MUTATING_TOOLS, MUTATING_TOOLS } from "./policy.js";
+import { TransportRegistry } from "./transport/registry.js";
+
+const SECRET_KEY_PATTERN = /secret|password|passwd|pwd|token|private|credential/i;
+const REDACTED = "***";
+
+export interface AuditRecord {
+  timestamp: string;
+  actor: string;
+  instance: string;
+  tool: string;
+  args: Record<string, any>;
+  outcome: "success" | "error";
+  error?: string;
+  cfgNum?: number;
+}
+
+export interface AuditQuery {
+  user?: string;
+  tool?: string;
+  instance?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+function redactValue(value: any): any {
+  if (Array.isArray(value)) return value.map(redactValue);
+  if (value === null || typeof value !== "object") return value;
+  const result: Record<string, any> = {};
+  for (const [key, v] of Object.entries(value)) {
+    result[key] = SECRET_KEY_PATTERN.test(key) ? REDACTED : redactValue(v);
+  }
+  return result;
+}
+
+/**
+ * Return a copy of tool arguments with secrets replaced by "***". Keys are
+ * matched by name at any depth; JSON string arguments (config import/merge)
+ * are parsed first. A composite key value is redacted when its key or
+ * subkey looks like a secret.
+ */
+export function redactArgs(args: Record<string, any>): Record<string, any> {
+  const result = redactValue(args);
+  if (typeof args.json === "string") {
+    try {
+      result.json = redactValue(JSON.parse(args.json));
+    } catch {
+      result.json = REDACTED;
+    }
+  }
+  if (
+    "value" in args &&
+    (SECRET_KEY_PATTERN.test(String(args.key ?? "")) ||
+      SECRET_KEY_PATTERN.test(String(args.subkey ?? "")))
+  ) {
+    result.value = REDACTED;
+  }
+  return result;
+}
+
+/**
+ * Append-only JSON lines audit log.
+ */
+export class AuditLog {
+  readonly file: string;
+  readonly actor: string;
+
+  constructor(config: AuditConfig = {}) {
+    this.file =
+      process.env.LLNG_AUDIT_FILE || config.file || join(homedir(), ".llng-mcp", "audit.jsonl");
+    this.actor = process.env.LLNG_AUDIT_ACTOR || config.actor || userInfo().username;
+  }
+
+  append(record: AuditRecord): void {
+    mkdirSync(dirname(this.file), { recursive: true, mode: 0o700 });
+    appendFileSync(this.file, JSON.stringify(record) + "\n", { mode: 0o600 });
+  }
+
+  /**
+   * Search the log. `user` matches the actor or the target user of the call.
+   * Results are returned newest first.
+   */
+  query(filter: AuditQuery = {}): AuditRecord[] {
+    let content: string;
+    try {
+      content = readFileSync(this.file, "utf-8");
+    } catch {
+      return [];
+    }
+
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const until = filter.until ? Date.parse(filter.until) : undefined;
+    const records: AuditRecord[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      const time = Date.parse(record.timestamp);
+      if (filter.tool && record.tool !== filter.tool) continue;
+      if (filter.instance && record.instance !== filter.instance) continue;
+      if (since !== undefined && time < since) continue;
+      if (until !== undefined && time > until) continue;
+      if (
+        filter.user &&
+        record.actor !== filter.user &&
+        record.args?.user !== filter.user &&
+        record.args?.uid !== filter.user
+      ) {
+        continue;
+      }
+      records.push(record);
+    }
+
+    return records.reverse().slice(0, filter.limit ?? 100);
+  }
+}
+
+/**
+ * Record every mutating tool registered afterwards in the audit log. Dry runs
+ * and confirmation prompts are not recorded since they write nothing.
+ */
+export function enableAudit(
+  server: McpServer,
+  registry: TransportRegistry,
+  auditLog: AuditLog,
+): void {
+  useToolMiddleware(server, (name, handler) => {
+    if (!MUTATING_TOOLS.has(name)) return handler;
+    return async (args, extra) => {
+      const result = await handler(args, extra);
+      if (args?.dryRun || isConfirmationPrompt(result)) return result;
+
+      const record: AuditRecord = {
+        timestamp: new Date().toISOString(),
+        actor: auditLog.actor,
+        instance: args?.instance || registry.getDefaultInstance(),
+        tool: name,
+        args: redactArgs(args ?? {}),
+        outcome: result?.isError ? "error" : "success",
+      };
+      if (result?.isError) {
+        record.error = result.content?.[0]?.text;
+      } else if (CONFIG_MUTATING_TOOLS.has(name)) {
+        try {
+          const info = await registry.getTransport(args?.instance, "manager").configInfo();
+          record.cfgNum = info.cfgNum;
+        } catch {
+          // cfgNum is informative only
+        }
+      }
+
+      try {
+        auditLog.append(record);
+      } catch (error) {
+        console.error(
+          `Audit log write failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      return result;
+    };
+  });
+}
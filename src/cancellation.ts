@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { useToolMiddleware } from "./middleware.js";
+
+// Abort signal of the MCP request whose tool handler is running
+const requestSignal = new AsyncLocalStorage<AbortSignal>();
+
+export function currentRequestSignal(): AbortSignal | undefined {
+  return requestSignal.getStore();
+}
+
+export function runWithRequestSignal<T>(signal: AbortSignal, fn: () => T): T {
+  return requestSignal.run(signal, fn);
+}
+
+/**
+ * Make the client's cancellation of a tool call reach the transports: the
+ * running command is killed, the pending HTTP request aborted. The signal is
+ * carried through async calls so that transports do not need it as argument.
+ */
+export function enableCancellation(server: McpServer): void {
+  useToolMiddleware(server, (_name, handler) => {
+    return async (args, extra) => {
+      if (!extra?.signal) return handler(args, extra);
+      return runWithRequestSignal(extra.signal, () => handler(args, extra));
+    };
+  });
+}
@@ -0,0 +1,326 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { SecurityAuditConfig } from "./config.js";
+
+export const SEVERITIES = ["critical", "high", "medium", "low", "info"] as const;
+
+export type Severity = (typeof SEVERITIES)[number];
+
+/**
+ * Condition on configuration values. A condition with `key` reads that key
+ * (falling back to `default`, the value LLNG uses when it is not set) and
+ * holds when every operator given holds. `all`, `any` and `not` combine
+ * conditions.
+ */
+export interface RuleCondition {
+  key?: string;
+  default?: unknown;
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  matches?: string;
+  gt?: number;
+  lt?: number;
+  enabled?: boolean;
+  all?: RuleCondition[];
+  any?: RuleCondition[];
+  not?: RuleCondition;
+}
+
+/**
+ * A finding is raised when the configuration matches `match`. With
+ * `forEach`, the condition is evaluated on each entry of that composite key
+ * (e.g. each relying party's options) and one finding is raised per entry.
+ */
+export interface SecurityRule {
+  id: string;
+  severity: Severity;
+  title: string;
+  remediation: string;
+  forEach?: string;
+  match: RuleCondition;
+  disabled?: boolean;
+}
+
+export interface AuditFinding {
+  id: string;
+  severity: Severity;
+  title: string;
+  remediation: string;
+  target?: string;
+  evidence: Record<string, unknown>;
+}
+
+export interface AuditReport {
+  cfgNum?: number;
+  rules: number;
+  summary: Record<Severity, number>;
+  findings: AuditFinding[];
+}
+
+export const DEFAULT_SECURITY_RULES: SecurityRule[] = [
+  {
+    id: "secured-cookie-off",
+    severity: "high",
+    title: "SSO cookie is not flagged Secure on an https portal",
+    remediation: "Set securedCookie to 1 so that the SSO cookie is never sent over plain http",
+    match: {
+      all: [
+        { key: "portal", matches: "^https://" },
+        { key: "securedCookie", default: 0, equals: 0 },
+      ],
+    },
+  },
+  {
+    id: "http-only-off",
+    severity: "high",
+    title: "SSO cookie is readable by JavaScript",
+    remediation: "Set httpOnly to 1 to protect the SSO cookie against XSS",
+    match: { key: "httpOnly", default: 1, enabled: false },
+  },
+  {
+    id: "no-brute-force-protection",
+    severity: "medium",
+    title: "No brute-force protection on the login form",
+    remediation: "Enable bruteForceProtection to delay logins after repeated failures",
+    match: { key: "bruteForceProtection", default: 0, enabled: false },
+  },
+  {
+    id: "csrf-token-off",
+    severity: "high",
+    title: "CSRF protection of the login form is disabled",
+    remediation: "Set requireToken to 1 so that the login form requires a one-time token",
+    match: { key: "requireToken", default: 1, enabled: false },
+  },
+  {
+    id: "oidc-implicit-flow",
+    severity: "medium",
+    title: "OpenID Connect implicit flow is allowed",
+    remediation:
+      "Disable oidcServiceAllowImplicitFlow; use the authorization code flow with PKCE instead",
+    match: { key: "oidcServiceAllowImplicitFlow", default: 0, enabled: true },
+  },
+  {
+    id: "oidc-rp-none-alg",
+    severity: "critical",
+    title: "Relying party accepts unsigned ID tokens (alg none)",
+    remediation: "Set oidcRPMetaDataOptionsIDTokenSignAlg to RS256 or another signing algorithm",
+    forEach: "oidcRPMetaDataOptions",
+    match: { key: "oidcRPMetaDataOptionsIDTokenSignAlg", equals: "none" },
+  },
+  {
+    id: "oidc-public-client-without-pkce",
+    severity: "high",
+    title: "Public OpenID Connect client without PKCE",
+    remediation: "Set oidcRPMetaDataOptionsRequirePKCE to 1 for public clients",
+    forEach: "oidcRPMetaDataOptions",
+    match: {
+      all: [
+        { key: "oidcRPMetaDataOptionsPublic", default: 0, enabled: true },
+        { key: "oidcRPMetaDataOptionsRequirePKCE", default: 0, enabled: false },
+      ],
+    },
+  },
+  {
+    id: "weak-password-policy",
+    severity: "medium",
+    title: "Password policy allows passwords shorter than 8 characters",
+    remediation: "Set passwordPolicyMinSize to at least 8 (12 or more is recommended)",
+    match: { key: "passwordPolicyMinSize", default: 0, lt: 8 },
+  },
+  {
+    id: "cors-wildcard",
+    severity: "medium",
+    title: "CORS allows any origin",
+    remediation: "Set corsAllow_Origin to the list of trusted origins",
+    match: {
+      all: [
+        { key: "corsEnabled", default: 1, enabled: true },
+        { key: "corsAllow_Origin", default: "*", equals: "*" },
+      ],
+    },
+  },
+  {
+    id: "long-session-timeout",
+    severity: "low",
+    title: "SSO sessions last more than 24 hours",
+    remediation: "Lower timeout (in seconds) or enable timeoutActivity",
+    match: { key: "timeout", default: 72000, gt: 86400 },
+  },
+  {
+    id: "debug-log-level",
+    severity: "low",
+    title: "Debug logging is enabled",
+    remediation:
+      "Set logLevel to notice or warn in production: debug logs may contain personal data",
+    match: { key: "logLevel", equals: "debug" },
+  },
+];
+
+// Values meaning "off" for LLNG boolean settings
+const DISABLED_VALUES: unknown[] = [undefined, null, "", 0, "0", false];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return String(a) === String(b);
+}
+
+function readKey(scope: Record<string, any>, condition: RuleCondition): unknown {
+  const value = scope[condition.key!];
+  return value === undefined || value === null ? condition.default : value;
+}
+
+function evaluate(condition: RuleCondition, scope: Record<string, any>): boolean {
+  if (condition.all && !condition.all.every((c) => evaluate(c, scope))) return false;
+  if (condition.any && !condition.any.some((c) => evaluate(c, scope))) return false;
+  if (condition.not && evaluate(condition.not, scope)) return false;
+  if (condition.key === undefined) return true;
+
+  const value = readKey(scope, condition);
+  if ("equals" in condition && !sameValue(value, condition.equals)) return false;
+  if ("notEquals" in condition && sameValue(value, condition.notEquals)) return false;
+  if (condition.in && !condition.in.some((allowed) => sameValue(value, allowed))) return false;
+  if (condition.matches !== undefined && !new RegExp(condition.matches).test(String(value ?? ""))) {
+    return false;
+  }
+  if (condition.gt !== undefined && !(Number(value) > condition.gt)) return false;
+  if (condition.lt !== undefined && !(Number(value) < condition.lt)) return false;
+  if (condition.enabled !== undefined && condition.enabled === DISABLED_VALUES.includes(value)) {
+    return false;
+  }
+  return true;
+}
+
+// Values of the keys a condition reads, shown with each finding
+function evidence(
+  condition: RuleCondition,
+  scope: Record<string, any>,
+  result: Record<string, unknown> = {},
+): Record<string, unknown> {
+  if (condition.key !== undefined) result[condition.key] = readKey(scope, condition) ?? null;
+  for (const nested of [...(condition.all ?? []), ...(condition.any ?? [])]) {
+    evidence(nested, scope, result);
+  }
+  if (condition.not) evidence(condition.not, scope, result);
+  return result;
+}
+
+function isSeverity(value: unknown): value is Severity {
+  return SEVERITIES.some((severity) => severity === value);
+}
+
+function validateRule(rule: unknown, source: string): SecurityRule {
+  if (rule === null || typeof rule !== "object" || Array.isArray(rule)) {
+    throw new Error(`Invalid rule in ${source}: every rule needs an id`);
+  }
+  const fields = rule as Record<string, unknown>;
+  const { id, severity, match, disabled } = fields;
+  if (typeof id !== "string") {
+    throw new Error(`Invalid rule in ${source}: every rule needs an id`);
+  }
+  const text = (field: string): string | undefined => {
+    const value = fields[field];
+    if (value === undefined || typeof value === "string") return value;
+    throw new Error(`Invalid rule '${id}' in ${source}: ${field} must be a string`);
+  };
+
+  if (disabled) {
+    return { id, severity: "info", title: id, remediation: "", match: {}, disabled: true };
+  }
+  if (!isSeverity(severity)) {
+    throw new Error(
+      `Invalid rule '${id}' in ${source}: severity must be one of ${SEVERITIES.join(", ")}`,
+    );
+  }
+  if (match === null || typeof match !== "object" || Array.isArray(match)) {
+    throw new Error(`Invalid rule '${id}' in ${source}: missing match condition`);
+  }
+  const forEach = text("forEach");
+  return {
+    id,
+    severity,
+    title: text("title") ?? id,
+    remediation: text("remediation") ?? "",
+    ...(forEach !== undefined ? { forEach } : {}),
+    match: match as RuleCondition,
+  };
+}
+
+/**
+ * Security posture audit of a configuration: built-in rules plus the rules
+ * of a local file, which may add rules, replace built-in ones (same id) or
+ * disable them (`{ "id": "...", "disabled": true }`).
+ */
+export class ConfigAuditor {
+  readonly rulesFile: string;
+
+  constructor(config: SecurityAuditConfig = {}) {
+    this.rulesFile =
+      process.env.LLNG_SECURITY_RULES ||
+      config.rulesFile ||
+      join(homedir(), ".llng-mcp", "security-rules.json");
+  }
+
+  /**
+   * Effective rule set. The rules file is read on each call so that edits
+   * apply without a restart.
+   */
+  rules(): SecurityRule[] {
+    let content: string;
+    try {
+      content = readFileSync(this.rulesFile, "utf-8");
+    } catch (e: unknown) {
+      // No rules file: built-in rules only. A file that cannot be read is an error
+      if (e instanceof Error && "code" in e && e.code === "ENOENT") {
+        return DEFAULT_SECURITY_RULES;
+      }
+      throw e;
+    }
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed?.rules)) {
+      throw new Error(`Invalid rules file ${this.rulesFile}: expected { "rules": [...] }`);
+    }
+
+    const rules = new Map(DEFAULT_SECURITY_RULES.map((rule) => [rule.id, rule]));
+    for (const custom of parsed.rules) {
+      const rule = validateRule(custom, this.rulesFile);
+      rules.set(rule.id, rule);
+    }
+    return [...rules.values()].filter((rule) => !rule.disabled);
+  }
+
+  run(config: Record<string, any>, minSeverity: Severity = "info"): AuditReport {
+    const rules = this.rules();
+    const threshold = SEVERITIES.indexOf(minSeverity);
+    const findings: AuditFinding[] = [];
+
+    for (const rule of rules) {
+      if (SEVERITIES.indexOf(rule.severity) > threshold) continue;
+      const { id, severity, title, remediation } = rule;
+      if (rule.forEach) {
+        const entries = config[rule.forEach];
+        if (!entries || typeof entries !== "object") continue;
+        for (const [target, scope] of Object.entries<Record<string, any>>(entries)) {
+          if (scope && typeof scope === "object" && evaluate(rule.match, scope)) {
+            findings.push({
+              id,
+              severity,
+              title,
+              remediation,
+              target,
+              evidence: evidence(rule.match, scope),
+            });
+          }
+        }
+      } else if (evaluate(rule.match, config)) {
+        findings.push({ id, severity, title, remediation, evidence: evidence(rule.match, config) });
+      }
+    }
+
+    findings.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+    const summary = Object.fromEntries(SEVERITIES.map((s) => [s, 0])) as Record<Severity, number>;
+    for (const finding of findings) summary[finding.severity]++;
+
+    return { cfgNum: config.cfgNum, rules: rules.length, summary, findings };
+  }
+}
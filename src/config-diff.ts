@@ -0,0 +1,215 @@
+import { ConfigConflictError, ILlngTransport } from "./transport/interface.js";
+
+/**
+ * Config metadata keys rewritten by LLNG on every save. They are ignored when
+ * diffing so that a preview only shows the keys the caller actually changes.
+ */
+export const CONFIG_META_KEYS = [
+  "cfgNum",
+  "cfgAuthor",
+  "cfgAuthorIP",
+  "cfgDate",
+  "cfgLog",
+  "cfgVersion",
+] as const;
+
+/**
+ * Composite keys holding the settings of an OIDC relying party, by confKey.
+ */
+export const RP_CONFIG_KEYS = [
+  "oidcRPMetaDataOptions",
+  "oidcRPMetaDataExportedVars",
+  "oidcRPMetaDataMacros",
+  "oidcRPMetaDataScopeRules",
+  "oidcRPMetaDataOptionsExtraClaims",
+] as const;
+
+export interface ConfigDiffEntry {
+  op: "add" | "remove" | "change";
+  path: string;
+  before?: any;
+  after?: any;
+}
+
+export interface ConfigDiff {
+  changes: ConfigDiffEntry[];
+  summary: { added: number; removed: number; changed: number };
+}
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Deep merge source into a copy of target. Arrays and scalars replace the
+ * target value, objects are merged recursively.
+ */
+export function deepMerge(target: any, source: any): any {
+  const result = { ...target };
+
+  for (const key in source) {
+    if (key === "__proto__" || key === "constructor" || key === "prototype") continue;
+    const value = source[key];
+    if (value !== null && value instanceof Object && !Array.isArray(value)) {
+      result[key] = deepMerge(result[key] || {}, value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+function diffValues(before: any, after: any, path: string[], changes: ConfigDiffEntry[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      diffValues(before[key], after[key], [...path, key], changes);
+    }
+    return;
+  }
+
+  const p = path.join("/");
+  if (before === undefined && after !== undefined) {
+    changes.push({ op: "add", path: p, after });
+  } else if (before !== undefined && after === undefined) {
+    changes.push({ op: "remove", path: p, before });
+  } else if (!isEqual(before, after)) {
+    changes.push({ op: "change", path: p, before, after });
+  }
+}
+
+/**
+ * Compute a structured diff between two configurations. Paths use "/" to
+ * separate nested keys (e.g. "oidcRPMetaDataOptions/myApp/oidcRPMetaDataOptionsClientID").
+ */
+export function diffConfig(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  ignoreKeys: readonly string[] = CONFIG_META_KEYS,
+): ConfigDiff {
+  const strip = (config: Record<string, any>) => {
+    const copy = { ...config };
+    for (const key of ignoreKeys) {
+      delete copy[key];
+    }
+    return copy;
+  };
+
+  const changes: ConfigDiffEntry[] = [];
+  diffValues(strip(before), strip(after), [], changes);
+
+  return {
+    changes,
+    summary: {
+      added: changes.filter((c) => c.op === "add").length,
+      removed: changes.filter((c) => c.op === "remove").length,
+      changed: changes.filter((c) => c.op === "change").length,
+    },
+  };
+}
+
+/**
+ * One-line description of a diff summary, e.g. "2 added, 0 removed, 1 changed".
+ */
+export function formatDiffSummary(diff: ConfigDiff): string {
+  const { added, removed, changed } = diff.summary;
+  return `${added} added, ${removed} removed, ${changed} changed`;
+}
+
+/**
+ * Fetch the current configuration through the transport.
+ * Uses configSave so it works the same way in API, SSH and K8s modes.
+ */
+export async function loadFullConfig(transport: ILlngTransport): Promise<Record<string, any>> {
+  const json = await transport.configSave();
+  return JSON.parse(json);
+}
+
+/**
+ * Values the CLI `set` command cannot take: hashes, arrays and null.
+ */
+export function isStructuredConfigValue(value: unknown): boolean {
+  return typeof value === "object";
+}
+
+/**
+ * LLNG-native CLI encoding of a scalar value: booleans are stored as 1/0.
+ */
+export function cliConfigValue(value: unknown): string {
+  if (typeof value === "boolean") return value ? "1" : "0";
+  return String(value);
+}
+
+/**
+ * Replace whole keys for transports that write through the CLI, by restoring
+ * the edited export. `merge` is not used: it keeps subkeys missing from the
+ * new value, while the API replaces the key.
+ */
+export async function replaceConfigKeys(
+  transport: ILlngTransport,
+  pairs: Record<string, any>,
+  log?: string,
+): Promise<void> {
+  const config = await loadFullConfig(transport);
+  Object.assign(config, pairs);
+  if (log) {
+    config.cfgLog = log;
+  }
+  await transport.configRestore(JSON.stringify(config));
+}
+
+/**
+ * Compute the configuration that would result from a change, without
+ * writing anything, and return its diff against the current configuration.
+ */
+export async function previewConfigChange(
+  transport: ILlngTransport,
+  apply: (current: Record<string, any>) => Record<string, any>,
+): Promise<ConfigDiff> {
+  const current = await loadFullConfig(transport);
+  const updated = apply(structuredClone(current));
+  return diffConfig(current, updated);
+}
+
+/**
+ * Return the keys among `keys` whose value differs between two configurations.
+ */
+export function changedKeys(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  keys: string[],
+): string[] {
+  return keys.filter((key) => !isEqual(before[key], after[key]));
+}
+
+/**
+ * Optimistic concurrency check for transports that write through the CLI.
+ * Passes when the latest cfgNum is the expected one, or when it moved but
+ * none of the edited keys changed in between. Throws ConfigConflictError otherwise.
+ */
+export async function checkConfigConflict(
+  transport: ILlngTransport,
+  expectedCfgNum: number,
+  keys: string[],
+): Promise<void> {
+  const { cfgNum } = await transport.configInfo();
+  if (cfgNum === expectedCfgNum) return;
+
+  let base: Record<string, any>;
+  try {
+    base = JSON.parse(await transport.configSave(expectedCfgNum));
+  } catch {
+    // Expected revision is not available anymore: cannot tell what changed
+    throw new ConfigConflictError(expectedCfgNum, cfgNum, keys);
+  }
+  const latest = JSON.parse(await transport.configSave(cfgNum));
+  const conflicting = changedKeys(base, latest, keys);
+  if (conflicting.length > 0) {
+    throw new ConfigConflictError(expectedCfgNum, cfgNum, conflicting);
+  }
+}
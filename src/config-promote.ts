@@ -0,0 +1,204 @@
+import { randomBytes } from "crypto";
+import { RP_CONFIG_KEYS, isPlainObject } from "./config-diff.js";
+
+/**
+ * Objects that can be promoted by name, with the composite keys holding
+ * their settings. The first key must hold the object for it to exist.
+ */
+export const PROMOTABLE_OBJECTS = {
+  oidcRP: RP_CONFIG_KEYS,
+  virtualHost: ["locationRules", "exportedHeaders", "post", "vhostOptions"],
+  samlSP: [
+    "samlSPMetaDataXML",
+    "samlSPMetaDataOptions",
+    "samlSPMetaDataExportedAttributes",
+    "samlSPMetaDataMacros",
+  ],
+} as const;
+
+export type PromotableObject = keyof typeof PROMOTABLE_OBJECTS;
+
+// Config keys holding a secret; narrower than the audit log redaction so that
+// settings such as requireToken are still promoted
+const SECRET_CONFIG_KEY_PATTERN = /secret|password|passwd|privatekey/i;
+// Secrets issued by LLNG itself, which can be regenerated on the target
+const REGENERABLE_SECRET_PATTERN = /ClientSecret$/;
+const HOSTNAME_LABELS = "[A-Za-z0-9-]+(?:\\.[A-Za-z0-9-]+)*";
+
+export type SecretHandling = "copy" | "exclude" | "regenerate";
+
+export interface RewriteRule {
+  from: string;
+  to: string;
+}
+
+export interface PromoteSelection {
+  keys?: string[];
+  objects?: { type: PromotableObject; name: string }[];
+}
+
+export interface PromoteOptions {
+  rewrite?: RewriteRule[];
+  secrets?: SecretHandling;
+  generateSecret?: () => string;
+}
+
+/**
+ * Value to write under `key` (or `key/subkey`) on the target; undefined
+ * removes it.
+ */
+export interface PromotedEntry {
+  key: string;
+  subkey?: string;
+  value: any;
+}
+
+export interface Promotion {
+  items: string[];
+  entries: PromotedEntry[];
+  keepTargetSecrets: boolean;
+  excludedSecrets: string[];
+  regeneratedSecrets: Record<string, string>;
+}
+
+function compileRewrite(rule: RewriteRule): (value: string) => string {
+  const body = rule.from
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(`(${HOSTNAME_LABELS})`);
+  // Whole hostnames only: staging.example.com does not match app.staging.example.com
+  const pattern = new RegExp(`(?<![\\w.-])${body}(?![\\w-])`, "g");
+  return (value) =>
+    value.replace(pattern, (...match) => {
+      let i = 1;
+      return rule.to.replace(/\*/g, () => match[i++] ?? "");
+    });
+}
+
+function rewriteDeep(value: any, rewrite: (value: string) => string): any {
+  if (typeof value === "string") return rewrite(value);
+  if (Array.isArray(value)) return value.map((v) => rewriteDeep(v, rewrite));
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [rewrite(k), rewriteDeep(v, rewrite)]),
+  );
+}
+
+function isSecretKey(key: string): boolean {
+  return SECRET_CONFIG_KEY_PATTERN.test(key);
+}
+
+/**
+ * Build the set of values to write on the target from the source
+ * configuration: selected keys and objects, with hostnames and URLs
+ * rewritten (`*` matching the leading labels of a hostname) and secrets
+ * copied, excluded (the target keeps its own) or regenerated (OIDC client
+ * secrets get a new random value, other secrets are excluded).
+ */
+export function buildPromotion(
+  source: Record<string, any>,
+  selection: PromoteSelection,
+  options: PromoteOptions = {},
+): Promotion {
+  const secrets = options.secrets ?? "copy";
+  const generateSecret = options.generateSecret ?? (() => randomBytes(24).toString("base64url"));
+  const rewriters = (options.rewrite ?? []).map(compileRewrite);
+  const rewrite = (value: string) => rewriters.reduce((v, fn) => fn(v), value);
+
+  const promotion: Promotion = {
+    items: [],
+    entries: [],
+    keepTargetSecrets: secrets !== "copy",
+    excludedSecrets: [],
+    regeneratedSecrets: {},
+  };
+
+  const handleSecrets = (value: any, path: string): any => {
+    if (secrets === "copy" || !isPlainObject(value)) return value;
+    const result: Record<string, any> = {};
+    for (const [key, v] of Object.entries(value)) {
+      const keyPath = `${path}/${key}`;
+      if (!isSecretKey(key) || v === "" || isPlainObject(v)) {
+        result[key] = handleSecrets(v, keyPath);
+      } else if (secrets === "regenerate" && REGENERABLE_SECRET_PATTERN.test(key)) {
+        result[key] = generateSecret();
+        promotion.regeneratedSecrets[keyPath] = result[key];
+      } else {
+        promotion.excludedSecrets.push(keyPath);
+      }
+    }
+    return result;
+  };
+
+  for (const key of selection.keys ?? []) {
+    if (source[key] === undefined) {
+      throw new Error(`Key '${key}' is not set on the source instance`);
+    }
+    promotion.items.push(key);
+    if (secrets !== "copy" && isSecretKey(key) && !isPlainObject(source[key])) {
+      promotion.excludedSecrets.push(key);
+      continue;
+    }
+    promotion.entries.push({
+      key,
+      value: handleSecrets(rewriteDeep(source[key], rewrite), key),
+    });
+  }
+
+  for (const { type, name } of selection.objects ?? []) {
+    const keys = PROMOTABLE_OBJECTS[type];
+    if (source[keys[0]]?.[name] === undefined) {
+      throw new Error(`No ${type} '${name}' on the source instance`);
+    }
+    const targetName = rewrite(name);
+    promotion.items.push(
+      targetName === name ? `${type} ${name}` : `${type} ${name} → ${targetName}`,
+    );
+    for (const key of keys) {
+      promotion.entries.push({
+        key,
+        subkey: targetName,
+        value: handleSecrets(rewriteDeep(source[key]?.[name], rewrite), `${key}/${targetName}`),
+      });
+    }
+  }
+
+  return promotion;
+}
+
+// Copy the target's secrets missing from the promoted value
+function keepSecrets(value: any, existing: any): any {
+  if (!isPlainObject(value) || !isPlainObject(existing)) return value;
+  for (const [key, v] of Object.entries(existing)) {
+    if (!(key in value)) {
+      if (isSecretKey(key)) value[key] = v;
+    } else {
+      value[key] = keepSecrets(value[key], v);
+    }
+  }
+  return value;
+}
+
+/**
+ * Apply a promotion to the target configuration. Promoted keys and objects
+ * replace the target's ones as a whole.
+ */
+export function applyPromotion(
+  target: Record<string, any>,
+  promotion: Promotion,
+): Record<string, any> {
+  for (const { key, subkey, value } of promotion.entries) {
+    if (subkey === undefined) {
+      target[key] = promotion.keepTargetSecrets ? keepSecrets(value, target[key]) : value;
+      continue;
+    }
+    const existing = target[key]?.[subkey];
+    if (value === undefined) {
+      if (existing !== undefined) delete target[key][subkey];
+      continue;
+    }
+    target[key] = isPlainObject(target[key]) ? target[key] : {};
+    target[key][subkey] = promotion.keepTargetSecrets ? keepSecrets(value, existing) : value;
+  }
+  return target;
+}
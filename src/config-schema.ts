@@ -0,0 +1,214 @@
+import { readFileSync, existsSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { homedir } from "os";
+import { CONFIG_META_KEYS } from "./config-diff.js";
+
+/**
+ * Catalogue of LLNG configuration attributes, generated from the manager's
+ * attribute definitions by scripts/build-attributes.ts.
+ */
+export interface AttributeDefinition {
+  type: string;
+  default?: unknown;
+  select?: string[];
+  documentation?: string;
+  link?: string;
+}
+
+export interface AttributeCatalogue {
+  llngVersion: string;
+  attributes: Record<string, AttributeDefinition>;
+}
+
+export const SKIP_VALIDATION_DESCRIPTION =
+  "Skip the check against the LLNG attribute catalogue (e.g. for a key newer than the catalogue)";
+
+// Types whose value is a hash of subkeys
+const HASH_TYPE_PATTERN = /Container$|^(doubleHash|catAndAppList|sfExtra)$/;
+// Types whose value must be a single string or number
+const SCALAR_TYPES = [
+  "bool",
+  "trool",
+  "int",
+  "select",
+  "text",
+  "longtext",
+  "password",
+  "url",
+  "hostname",
+  "pcre",
+  "lmAttrOrMacro",
+  "PerlModule",
+  "boolOrExpr",
+];
+const MAX_SUGGESTIONS = 3;
+
+const catalogues = new Map<string, AttributeCatalogue>();
+
+function cataloguePath(): string | undefined {
+  const candidates = [
+    join(dirname(fileURLToPath(import.meta.url)), "../data/attributes.json"),
+    join(homedir(), ".config/llng-mcp/attributes.json"),
+  ];
+  if (process.env.LLNG_ATTRIBUTES) {
+    candidates.unshift(process.env.LLNG_ATTRIBUTES);
+  }
+  return candidates.find((path) => existsSync(path));
+}
+
+/**
+ * Load the attribute catalogue, or return undefined when none was built:
+ * validation is then skipped.
+ */
+export function loadAttributeCatalogue(): AttributeCatalogue | undefined {
+  const path = cataloguePath();
+  if (!path) return undefined;
+  let catalogue = catalogues.get(path);
+  if (!catalogue) {
+    catalogue = JSON.parse(readFileSync(path, "utf-8")) as AttributeCatalogue;
+    catalogues.set(path, catalogue);
+  }
+  return catalogue;
+}
+
+/**
+ * Suffix for the result of a config write whose input could not be checked
+ * because no catalogue was found; empty otherwise.
+ */
+export function validationSkippedNote(skipValidation?: boolean): string {
+  return !skipValidation && !loadAttributeCatalogue()
+    ? " (not validated: no LLNG attribute catalogue found, see npm run build-attributes)"
+    : "";
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `- ${issue}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Known attribute names close to `key`, closest first.
+ */
+export function suggestAttributes(key: string, catalogue: AttributeCatalogue): string[] {
+  const lower = key.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(key.length / 4));
+  return Object.keys(catalogue.attributes)
+    .map((name) => ({ name, distance: editDistance(lower, name.toLowerCase()) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ name }) => name);
+}
+
+function unknownKeyIssue(key: string, catalogue: AttributeCatalogue): string {
+  const suggestions = suggestAttributes(key, catalogue);
+  return suggestions.length > 0
+    ? `${key}: unknown key (did you mean ${suggestions.join(", ")}?)`
+    : `${key}: unknown key`;
+}
+
+function isHashType(type: string): boolean {
+  return HASH_TYPE_PATTERN.test(type);
+}
+
+function typeIssue(key: string, value: unknown, definition: AttributeDefinition): string | null {
+  // null resets the key to its default
+  if (value === null) return null;
+  const { type } = definition;
+  const shown = JSON.stringify(value);
+
+  if (isHashType(type)) {
+    return typeof value === "object" && !Array.isArray(value)
+      ? null
+      : `${key}: expected an object (${type}), got ${shown}`;
+  }
+  if (typeof value === "object") {
+    return SCALAR_TYPES.includes(type)
+      ? `${key}: expected a single value (${type}), got ${Array.isArray(value) ? "an array" : "an object"}`
+      : null;
+  }
+
+  const text = String(value);
+  switch (type) {
+    case "bool":
+      // JSON booleans are written as 1/0, strings must already be 0 or 1
+      return typeof value === "boolean" || ["0", "1"].includes(text)
+        ? null
+        : `${key}: expected a boolean (0 or 1), got ${shown}`;
+    case "trool":
+      return ["-1", "0", "1"].includes(text) ? null : `${key}: expected -1, 0 or 1, got ${shown}`;
+    case "int":
+      return /^-?\d+$/.test(text) ? null : `${key}: expected an integer, got ${shown}`;
+    case "select":
+      return !definition.select || definition.select.includes(text)
+        ? null
+        : `${key}: invalid value ${shown}, expected one of ${definition.select.join(", ")}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check top-level config values against the catalogue. Returns one message
+ * per problem; empty when the values are valid or no catalogue is available.
+ */
+export function validateConfigValues(
+  values: Record<string, unknown>,
+  catalogue = loadAttributeCatalogue(),
+): string[] {
+  if (!catalogue) return [];
+  const issues: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    if ((CONFIG_META_KEYS as readonly string[]).includes(key)) continue;
+    const definition = catalogue.attributes[key];
+    if (!definition) {
+      issues.push(unknownKeyIssue(key, catalogue));
+      continue;
+    }
+    const issue = typeIssue(key, value, definition);
+    if (issue) issues.push(issue);
+  }
+  return issues;
+}
+
+/**
+ * Check that `key` is a known composite parameter accepting subkeys.
+ */
+export function validateConfigSubkey(key: string, catalogue = loadAttributeCatalogue()): string[] {
+  if (!catalogue) return [];
+  const definition = catalogue.attributes[key];
+  if (!definition) return [unknownKeyIssue(key, catalogue)];
+  return isHashType(definition.type)
+    ? []
+    : [`${key}: not a composite parameter (${definition.type}), use llng_config_set`];
+}
+
+/**
+ * Throw a ConfigValidationError listing every issue, if any.
+ */
+export function assertValidConfig(issues: string[]): void {
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
@@ -13,8 +13,18 @@ function parseMode(value: string): LlngMode {
   throw new Error(`Invalid LLNG mode '${value}'. Valid modes: ${VALID_MODES.join(", ")}`);
 }
 
-export interface SshConfig {
+/**
+ * Limits applied to every command or HTTP request of a transport.
+ */
+export interface RequestConfig {
+  timeoutMs?: number; // per command or request, unset or 0 disables
+  retries?: number; // extra attempts for idempotent reads after a transient failure (default 0)
+  retryDelayMs?: number; // delay before the first retry, doubled on each attempt (default 500)
+}
+
+export interface SshConfig extends RequestConfig {
   host?: string;
+  hosts?: string[]; // every node of the instance, for operations run on all nodes
   user?: string;
   port?: number;
   sudo?: string;
@@ -24,9 +34,12 @@ export interface SshConfig {
   sessionsPath?: string;
   configEditorPath?: string;
   deleteSessionPath?: string;
+  multiplex?: boolean; // reuse one SSH connection (ControlMaster) for all commands
+  controlPersist?: number; // seconds the shared connection stays open when idle (default 60)
+  maxConcurrent?: number; // max parallel ssh/CLI processes (default 4)
 }
 
-export interface ApiConfig {
+export interface ApiConfig extends RequestConfig {
   baseUrl: string;
   basicAuth?: { username: string; password: string };
   verifySsl?: boolean;
@@ -40,12 +53,14 @@ export interface OidcConfig {
   scope: string;
 }
 
-export interface K8sConfig {
+export interface K8sConfig extends RequestConfig {
   context?: string;
   namespace?: string;
   deployment?: string;
   container?: string;
   podSelector?: string;
+  pod?: string; // pin a pod by name, skipping selector-based resolution
+  podSelection?: "ready" | "newest"; // among matching pods: first Ready one (default) or newest
   binPrefix?: string;
 }
 
@@ -56,13 +71,20 @@ export interface ManagerOverride {
   k8s?: K8sConfig;
 }
 
-export interface LlngConfig {
+export interface InstancePolicy {
+  readOnly?: boolean;
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface LlngConfig extends RequestConfig {
   mode: LlngMode;
   ssh?: SshConfig;
   api?: ApiConfig;
   k8s?: K8sConfig;
   oidc?: OidcConfig;
   manager?: ManagerOverride;
+  policy?: InstancePolicy;
 }
 
 export interface ResolvedPaths {
@@ -124,6 +146,12 @@ export function loadConfig(): LlngConfig {
     if (fileConfig.oidc) {
       config.oidc = fileConfig.oidc;
     }
+    if (fileConfig.policy) {
+      config.policy = fileConfig.policy;
+    }
+    if (fileConfig.timeoutMs !== undefined) config.timeoutMs = fileConfig.timeoutMs;
+    if (fileConfig.retries !== undefined) config.retries = fileConfig.retries;
+    if (fileConfig.retryDelayMs !== undefined) config.retryDelayMs = fileConfig.retryDelayMs;
   } catch {
     // File doesn't exist or invalid JSON - continue with defaults
   }
@@ -132,6 +160,12 @@ export function loadConfig(): LlngConfig {
   if (process.env.LLNG_MODE) {
     config.mode = parseMode(process.env.LLNG_MODE);
   }
+  if (process.env.LLNG_TIMEOUT_MS) {
+    config.timeoutMs = parseInt(process.env.LLNG_TIMEOUT_MS, 10);
+  }
+  if (process.env.LLNG_RETRIES) {
+    config.retries = parseInt(process.env.LLNG_RETRIES, 10);
+  }
 
   // SSH config - helper to ensure ssh config exists
   const ensureSshConfig = () => {
@@ -171,6 +205,9 @@ export function loadConfig(): LlngConfig {
   if (process.env.LLNG_SSH_DELETE_SESSION_PATH) {
     ensureSshConfig().deleteSessionPath = process.env.LLNG_SSH_DELETE_SESSION_PATH;
   }
+  if (process.env.LLNG_SSH_MULTIPLEX) {
+    ensureSshConfig().multiplex = process.env.LLNG_SSH_MULTIPLEX !== "false";
+  }
 
   // API config
   if (process.env.LLNG_API_URL) {
@@ -212,6 +249,9 @@ export function loadConfig(): LlngConfig {
   if (process.env.LLNG_K8S_POD_SELECTOR) {
     ensureK8sConfig().podSelector = process.env.LLNG_K8S_POD_SELECTOR;
   }
+  if (process.env.LLNG_K8S_POD) {
+    ensureK8sConfig().pod = process.env.LLNG_K8S_POD;
+  }
   if (process.env.LLNG_K8S_BIN_PREFIX) {
     ensureK8sConfig().binPrefix = process.env.LLNG_K8S_BIN_PREFIX;
   }
@@ -343,9 +383,26 @@ export function loadConfig(): LlngConfig {
 // Multi-instance support
 export type LlngInstanceConfig = LlngConfig;
 
+export interface AuditConfig {
+  file?: string;
+  actor?: string;
+}
+
+export interface SnapshotConfig {
+  dir?: string;
+  keep?: number;
+}
+
+export interface SecurityAuditConfig {
+  rulesFile?: string;
+}
+
 export interface LlngMultiConfig {
   instances: Record<string, LlngInstanceConfig>;
   default: string;
+  audit?: AuditConfig;
+  snapshots?: SnapshotConfig;
+  securityAudit?: SecurityAuditConfig;
 }
 
 function applyInstanceDefaults(partial: Partial<LlngConfig>): LlngConfig {
@@ -357,6 +414,10 @@ function applyInstanceDefaults(partial: Partial<LlngConfig>): LlngConfig {
   if (partial.k8s) config.k8s = partial.k8s;
   if (partial.oidc) config.oidc = partial.oidc;
   if (partial.manager) config.manager = partial.manager;
+  if (partial.policy) config.policy = partial.policy;
+  if (partial.timeoutMs !== undefined) config.timeoutMs = partial.timeoutMs;
+  if (partial.retries !== undefined) config.retries = partial.retries;
+  if (partial.retryDelayMs !== undefined) config.retryDelayMs = partial.retryDelayMs;
 
   // For ssh mode without explicit ssh config, provide empty object
   if (config.mode === "ssh" && !config.ssh) {
@@ -374,6 +435,8 @@ function applyEnvOverrides(config: LlngConfig): void {
   if (process.env.LLNG_MODE) {
     config.mode = parseMode(process.env.LLNG_MODE);
   }
+  if (process.env.LLNG_TIMEOUT_MS) config.timeoutMs = parseInt(process.env.LLNG_TIMEOUT_MS, 10);
+  if (process.env.LLNG_RETRIES) config.retries = parseInt(process.env.LLNG_RETRIES, 10);
 
   const ensureSsh = () => {
     if (!config.ssh) {
@@ -396,6 +459,8 @@ function applyEnvOverrides(config: LlngConfig): void {
     ensureSsh().configEditorPath = process.env.LLNG_SSH_CONFIG_EDITOR_PATH;
   if (process.env.LLNG_SSH_DELETE_SESSION_PATH)
     ensureSsh().deleteSessionPath = process.env.LLNG_SSH_DELETE_SESSION_PATH;
+  if (process.env.LLNG_SSH_MULTIPLEX)
+    ensureSsh().multiplex = process.env.LLNG_SSH_MULTIPLEX !== "false";
 
   if (process.env.LLNG_API_URL) {
     config.api = config.api || { baseUrl: process.env.LLNG_API_URL };
@@ -427,6 +492,7 @@ function applyEnvOverrides(config: LlngConfig): void {
   if (process.env.LLNG_K8S_CONTAINER) ensureK8s().container = process.env.LLNG_K8S_CONTAINER;
   if (process.env.LLNG_K8S_POD_SELECTOR)
     ensureK8s().podSelector = process.env.LLNG_K8S_POD_SELECTOR;
+  if (process.env.LLNG_K8S_POD) ensureK8s().pod = process.env.LLNG_K8S_POD;
   if (process.env.LLNG_K8S_BIN_PREFIX) ensureK8s().binPrefix = process.env.LLNG_K8S_BIN_PREFIX;
 
   if (process.env.LLNG_OIDC_ISSUER) {
@@ -589,6 +655,9 @@ export function loadMultiConfig(): LlngMultiConfig {
       instances,
       default: defaultName,
     };
+    if (fileConfig.audit) multi.audit = fileConfig.audit;
+    if (fileConfig.snapshots) multi.snapshots = fileConfig.snapshots;
+    if (fileConfig.securityAudit) multi.securityAudit = fileConfig.securityAudit;
     // Apply env vars to the default instance, if it exists
     if (multi.instances[multi.default]) {
       applyEnvOverrides(multi.instances[multi.default]);
@@ -598,8 +667,12 @@ export function loadMultiConfig(): LlngMultiConfig {
 
   // Legacy flat format: wrap as single "default" instance
   const singleConfig = loadConfig();
-  return {
+  const multi: LlngMultiConfig = {
     instances: { default: singleConfig },
     default: "default",
   };
+  if (fileConfig?.audit) multi.audit = fileConfig.audit;
+  if (fileConfig?.snapshots) multi.snapshots = fileConfig.snapshots;
+  if (fileConfig?.securityAudit) multi.securityAudit = fileConfig.securityAudit;
+  return multi;
 }
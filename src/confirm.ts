@@ -0,0 +1,148 @@
+import { createHash, randomBytes } from "crypto";
+
+const CONFIRM_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+export const CONFIRM_TOKEN_DESCRIPTION =
+  "Confirmation token returned by a previous call with the same arguments. " +
+  "Without it, nothing is changed: the call returns a summary of the impact and a token.";
+
+interface PendingConfirmation {
+  digest: string;
+  expiresAt: number;
+  state?: unknown;
+}
+
+export interface ConfirmationSummary<T = unknown> {
+  summary: string;
+  details?: unknown;
+  // Kept server-side with the token and handed back on confirmation
+  state?: T;
+}
+
+// Issued tokens, single use, keyed by token
+const pending = new Map<string, PendingConfirmation>();
+
+// Results returned in place of the action, so that middlewares can tell them apart
+const prompts = new WeakSet<object>();
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function argsDigest(tool: string, args: Record<string, any>): string {
+  const rest = { ...args };
+  delete rest.confirmToken;
+  return createHash("sha256")
+    .update(tool + "\0" + stableStringify(rest))
+    .digest("hex");
+}
+
+/**
+ * Issue a token bound to the tool and its exact arguments (instance included).
+ */
+export function issueConfirmToken(
+  tool: string,
+  args: Record<string, any>,
+  state?: unknown,
+): string {
+  const now = Date.now();
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt <= now) pending.delete(token);
+  }
+  const token = randomBytes(8).toString("hex");
+  pending.set(token, {
+    digest: argsDigest(tool, args),
+    expiresAt: now + CONFIRM_TOKEN_TTL_MS,
+    state,
+  });
+  return token;
+}
+
+/**
+ * Consume a token and return the state stored with it. Throws when it is
+ * unknown, expired, or was issued for another tool or other arguments.
+ */
+export function consumeConfirmToken(
+  tool: string,
+  args: Record<string, any>,
+  token: string,
+): unknown {
+  const entry = pending.get(token);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    pending.delete(token);
+    throw new Error("Invalid or expired confirmation token. Call again without confirmToken.");
+  }
+  if (entry.digest !== argsDigest(tool, args)) {
+    throw new Error(
+      "Confirmation token does not match these arguments. Call again without confirmToken.",
+    );
+  }
+  pending.delete(token);
+  return entry.state;
+}
+
+export function isConfirmationPrompt(result: unknown): boolean {
+  return typeof result === "object" && result !== null && prompts.has(result);
+}
+
+/**
+ * Two-step confirmation for destructive tools. Without `args.confirmToken`,
+ * returns a tool result holding the summary of what would happen and a
+ * token; the caller must return it as is. With a valid token, returns
+ * undefined and the action may proceed.
+ */
+export async function requireConfirmation(
+  tool: string,
+  args: Record<string, any>,
+  summarize: () => Promise<ConfirmationSummary>,
+) {
+  return (await confirmWithState(tool, args, summarize)).prompt;
+}
+
+/**
+ * Same as requireConfirmation, for actions that need what was observed when
+ * the summary was made (e.g. the cfgNum the diff was computed against):
+ * `state` from the summary is returned once the token is confirmed.
+ */
+export async function confirmWithState<T>(
+  tool: string,
+  args: Record<string, any>,
+  summarize: () => Promise<ConfirmationSummary<T>>,
+) {
+  if (args.confirmToken) {
+    const state = consumeConfirmToken(tool, args, args.confirmToken) as T | undefined;
+    return { prompt: undefined, state };
+  }
+
+  const { summary, details, state } = await summarize();
+  const confirmToken = issueConfirmToken(tool, args, state);
+  const result = {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            confirmationRequired: true,
+            summary,
+            ...(details !== undefined ? { details } : {}),
+            confirmToken,
+            expiresAt: new Date(Date.now() + CONFIRM_TOKEN_TTL_MS).toISOString(),
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+  };
+  prompts.add(result);
+  return { prompt: result, state: undefined };
+}
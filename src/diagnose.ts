@@ -0,0 +1,463 @@
+import { X509Certificate, createPublicKey } from "crypto";
+import { connect } from "tls";
+import { ILlngTransport } from "./transport/interface.js";
+
+export type DiagnosticStatus = "ok" | "warn" | "error" | "skipped";
+
+export interface DiagnosticCheck {
+  layer: string;
+  check: string;
+  status: DiagnosticStatus;
+  detail?: string;
+  hint?: string;
+}
+
+export interface DiagnosticReport {
+  status: DiagnosticStatus; // worst status of all checks
+  checks: DiagnosticCheck[];
+}
+
+const HTTP_TIMEOUT_MS = 10000;
+const CERT_WARN_DAYS = 30;
+const CLOCK_SKEW_WARN_SECONDS = 30;
+const CLOCK_SKEW_ERROR_SECONDS = 300;
+
+const CONFIG_KEYS = [
+  "portal",
+  "issuerDBOpenIDConnectActivation",
+  "oidcServiceMetaDataIssuer",
+  "oidcServicePublicKeySig",
+  "issuerDBSAMLActivation",
+  "samlServicePublicKeySig",
+];
+
+const SEVERITY: Record<DiagnosticStatus, number> = { skipped: 0, ok: 0, warn: 1, error: 2 };
+
+function message(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Check a certificate validity date: error when expired, warn when it expires
+ * within CERT_WARN_DAYS.
+ */
+export function certificateExpiryCheck(
+  layer: string,
+  check: string,
+  validTo: Date,
+  now: Date = new Date(),
+): DiagnosticCheck {
+  const days = Math.floor((validTo.getTime() - now.getTime()) / 86400000);
+  const date = validTo.toISOString();
+  if (days < 0) {
+    return {
+      layer,
+      check,
+      status: "error",
+      detail: `expired on ${date}`,
+      hint: "Renew the certificate and update it in the configuration or web server",
+    };
+  }
+  if (days < CERT_WARN_DAYS) {
+    return {
+      layer,
+      check,
+      status: "warn",
+      detail: `expires in ${days} day(s), on ${date}`,
+      hint: "Plan the certificate renewal",
+    };
+  }
+  return { layer, check, status: "ok", detail: `valid until ${date}` };
+}
+
+/**
+ * Whether a JWKS document publishes the given public key or certificate.
+ */
+export function jwksContainsKey(jwks: { keys?: Record<string, any>[] }, pem: string): boolean {
+  const jwk = createPublicKey(pem).export({ format: "jwk" }) as Record<string, any>;
+  return (jwks.keys ?? []).some((key) =>
+    jwk.kty === "RSA" ? key.n === jwk.n && key.e === jwk.e : key.x === jwk.x && key.y === jwk.y,
+  );
+}
+
+/**
+ * Validate SAML metadata: it must describe an entity and its signing
+ * certificates must be valid.
+ */
+export function samlMetadataChecks(xml: string, now: Date = new Date()): DiagnosticCheck[] {
+  if (!/<(\w+:)?EntityDescriptor[\s>]/.test(xml)) {
+    return [
+      {
+        layer: "saml",
+        check: "metadata",
+        status: "error",
+        detail: "no EntityDescriptor in the metadata",
+        hint: "Check that the SAML issuer is enabled and samlServicePublicKeySig is set",
+      },
+    ];
+  }
+  const checks: DiagnosticCheck[] = [{ layer: "saml", check: "metadata", status: "ok" }];
+  const certificates = [...xml.matchAll(/<(?:\w+:)?X509Certificate>([^<]+)</g)].map((m) =>
+    m[1].replace(/\s+/g, ""),
+  );
+  for (const [i, base64] of [...new Set(certificates)].entries()) {
+    try {
+      const cert = new X509Certificate(Buffer.from(base64, "base64"));
+      checks.push(
+        certificateExpiryCheck("saml", `certificate ${i + 1}`, new Date(cert.validTo), now),
+      );
+    } catch (e) {
+      checks.push({
+        layer: "saml",
+        check: `certificate ${i + 1}`,
+        status: "error",
+        detail: `invalid certificate: ${message(e)}`,
+        hint: "Regenerate the SAML keys (samlServicePrivateKeySig / samlServicePublicKeySig)",
+      });
+    }
+  }
+  return checks;
+}
+
+export function clockSkewCheck(
+  source: string,
+  remoteEpoch: number,
+  localEpoch: number,
+): DiagnosticCheck {
+  const skew = Math.round(remoteEpoch - localEpoch);
+  const detail = `${source} clock is ${Math.abs(skew)}s ${skew >= 0 ? "ahead" : "behind"}`;
+  const check: DiagnosticCheck = { layer: "host", check: "clock skew", status: "ok", detail };
+  if (Math.abs(skew) >= CLOCK_SKEW_WARN_SECONDS) {
+    check.status = Math.abs(skew) >= CLOCK_SKEW_ERROR_SECONDS ? "error" : "warn";
+    check.hint = "Synchronize the clocks with NTP: token and assertion validity depend on them";
+  }
+  return check;
+}
+
+async function fetchWithTimeout(url: string): Promise<Response> {
+  return fetch(url, { redirect: "manual", signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+}
+
+function peerCertificateExpiry(url: URL): Promise<Date> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(
+      {
+        host: url.hostname,
+        port: Number(url.port || 443),
+        servername: url.hostname,
+        rejectUnauthorized: false,
+      },
+      () => {
+        const cert = socket.getPeerCertificate();
+        socket.end();
+        if (!cert || !cert.valid_to) {
+          reject(new Error("no certificate presented"));
+        } else {
+          resolve(new Date(cert.valid_to));
+        }
+      },
+    );
+    socket.setTimeout(HTTP_TIMEOUT_MS, () => socket.destroy(new Error("TLS handshake timed out")));
+    socket.on("error", reject);
+  });
+}
+
+async function portalChecks(portal: string | undefined): Promise<{
+  checks: DiagnosticCheck[];
+  serverDate?: number;
+}> {
+  if (!portal) {
+    return {
+      checks: [
+        {
+          layer: "portal",
+          check: "reachability",
+          status: "error",
+          detail: "portal is not set in the configuration",
+          hint: "Set the portal URL in the configuration",
+        },
+      ],
+    };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(portal);
+  } catch {
+    return {
+      checks: [
+        {
+          layer: "portal",
+          check: "reachability",
+          status: "error",
+          detail: `portal is not a valid URL: ${portal}`,
+          hint: "Set the portal to an absolute URL, e.g. https://auth.example.com/",
+        },
+      ],
+    };
+  }
+
+  const checks: DiagnosticCheck[] = [];
+  let serverDate: number | undefined;
+  try {
+    const response = await fetchWithTimeout(portal);
+    const date = response.headers.get("date");
+    if (date) serverDate = Date.parse(date) / 1000;
+    checks.push(
+      response.status >= 500
+        ? {
+            layer: "portal",
+            check: "reachability",
+            status: "error",
+            detail: `${portal} answered HTTP ${response.status}`,
+            hint: "Check the portal logs and the FastCGI/uWSGI server",
+          }
+        : {
+            layer: "portal",
+            check: "reachability",
+            status: "ok",
+            detail: `HTTP ${response.status}`,
+          },
+    );
+  } catch (e) {
+    checks.push({
+      layer: "portal",
+      check: "reachability",
+      status: "error",
+      detail: `${portal}: ${message(e)}`,
+      hint: "Check DNS, the load balancer and the web server in front of the portal",
+    });
+  }
+
+  if (url.protocol !== "https:") {
+    checks.push({
+      layer: "portal",
+      check: "tls certificate",
+      status: "warn",
+      detail: "portal is not served over HTTPS",
+      hint: "Serve the portal over HTTPS",
+    });
+  } else {
+    try {
+      checks.push(
+        certificateExpiryCheck("portal", "tls certificate", await peerCertificateExpiry(url)),
+      );
+    } catch (e) {
+      checks.push({
+        layer: "portal",
+        check: "tls certificate",
+        status: "error",
+        detail: message(e),
+        hint: "Check the TLS configuration of the web server",
+      });
+    }
+  }
+  return { checks, serverDate };
+}
+
+async function oidcChecks(config: Record<string, any>): Promise<DiagnosticCheck[]> {
+  if (!Number(config.issuerDBOpenIDConnectActivation)) {
+    return [
+      { layer: "oidc", check: "discovery", status: "skipped", detail: "OIDC issuer disabled" },
+    ];
+  }
+  const issuer = String(config.oidcServiceMetaDataIssuer || config.portal || "").replace(/\/$/, "");
+  const checks: DiagnosticCheck[] = [];
+  let metadata: Record<string, any>;
+  try {
+    const response = await fetchWithTimeout(`${issuer}/.well-known/openid-configuration`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    metadata = await response.json();
+    checks.push(
+      metadata.issuer === issuer
+        ? { layer: "oidc", check: "discovery", status: "ok" }
+        : {
+            layer: "oidc",
+            check: "discovery",
+            status: "warn",
+            detail: `issuer is '${metadata.issuer}', expected '${issuer}'`,
+            hint: "Align oidcServiceMetaDataIssuer with the public portal URL",
+          },
+    );
+  } catch (e) {
+    return [
+      {
+        layer: "oidc",
+        check: "discovery",
+        status: "error",
+        detail: message(e),
+        hint: "Check that the OIDC issuer is enabled and the portal serves /.well-known/openid-configuration",
+      },
+    ];
+  }
+
+  try {
+    const response = await fetchWithTimeout(metadata.jwks_uri);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const jwks = await response.json();
+    if (!config.oidcServicePublicKeySig) {
+      checks.push({
+        layer: "oidc",
+        check: "jwks",
+        status: "warn",
+        detail: "oidcServicePublicKeySig is not set",
+        hint: "Generate OIDC signing keys (llng_rotate_oidc_keys)",
+      });
+    } else if (jwksContainsKey(jwks, config.oidcServicePublicKeySig)) {
+      checks.push({ layer: "oidc", check: "jwks", status: "ok" });
+    } else {
+      checks.push({
+        layer: "oidc",
+        check: "jwks",
+        status: "error",
+        detail: "the JWKS does not publish oidcServicePublicKeySig",
+        hint: "Reload the portal configuration cache (llng_flush_cache) so it serves the current keys",
+      });
+    }
+  } catch (e) {
+    checks.push({
+      layer: "oidc",
+      check: "jwks",
+      status: "error",
+      detail: message(e),
+      hint: "Check the jwks_uri advertised by the discovery document",
+    });
+  }
+  return checks;
+}
+
+async function samlChecks(config: Record<string, any>): Promise<DiagnosticCheck[]> {
+  if (!Number(config.issuerDBSAMLActivation)) {
+    return [
+      { layer: "saml", check: "metadata", status: "skipped", detail: "SAML issuer disabled" },
+    ];
+  }
+  const portal = String(config.portal || "").replace(/\/$/, "");
+  try {
+    const response = await fetchWithTimeout(`${portal}/saml/metadata`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return samlMetadataChecks(await response.text());
+  } catch (e) {
+    return [
+      {
+        layer: "saml",
+        check: "metadata",
+        status: "error",
+        detail: message(e),
+        hint: "Check that the SAML issuer is enabled and the portal serves /saml/metadata",
+      },
+    ];
+  }
+}
+
+async function hostChecks(
+  transport: ILlngTransport,
+  serverDate: number | undefined,
+): Promise<DiagnosticCheck[]> {
+  const checks: DiagnosticCheck[] = [];
+  try {
+    const host = await transport.diagnoseHost();
+    const cache = host.configCache;
+    if (cache.status === "ok" && cache.cache !== undefined && cache.cache !== cache.db) {
+      checks.push({
+        layer: "config",
+        check: "local cache",
+        status: "warn",
+        detail: `local cache holds config ${cache.cache ?? "none"}, database has ${cache.db}`,
+        hint: "Flush the local config cache (llng_flush_cache target=config)",
+      });
+    } else {
+      checks.push({
+        layer: "config",
+        check: "local cache",
+        status: cache.status,
+        detail: cache.error ?? cache.reason ?? `cfgNum ${cache.db}`,
+        ...(cache.status === "error" ? { hint: "Check the configuration storage" } : {}),
+      });
+    }
+    for (const [name, result] of [
+      ["ldap", host.ldap],
+      ["sql", host.sql],
+    ] as const) {
+      if (!result) continue;
+      checks.push({
+        layer: "backend",
+        check: name,
+        status: result.status,
+        detail: result.error ?? ("server" in result ? result.server : undefined),
+        ...(result.status === "error"
+          ? {
+              hint: `Check the ${name.toUpperCase()} server and the credentials in the configuration`,
+            }
+          : {}),
+      });
+    }
+    checks.push(clockSkewCheck("LLNG host", host.time, Date.now() / 1000));
+  } catch (e) {
+    checks.push({
+      layer: "host",
+      check: "host diagnostics",
+      status: "skipped",
+      detail: message(e),
+    });
+    if (serverDate !== undefined) {
+      checks.push(clockSkewCheck("portal", serverDate, Date.now() / 1000));
+    }
+  }
+  return checks;
+}
+
+/**
+ * Run all diagnostics. Portal, OIDC and SAML are checked over HTTP from this
+ * machine; config cache, auth backends and clock from the LLNG host.
+ */
+export async function runDiagnostics(transport: ILlngTransport): Promise<DiagnosticReport> {
+  const checks: DiagnosticCheck[] = [];
+
+  try {
+    const health = await transport.healthCheck();
+    for (const [name, result] of Object.entries(health)) {
+      checks.push({
+        layer: name === "config" ? "config" : "sessions",
+        check: name,
+        status: result.status,
+        ...(result.error
+          ? { detail: result.error, hint: "Check the configuration and session storage settings" }
+          : {}),
+      });
+    }
+  } catch (e) {
+    checks.push({
+      layer: "transport",
+      check: "health check",
+      status: "error",
+      detail: message(e),
+      hint: "Check the connection to the instance (SSH host, kubectl context or API URL)",
+    });
+  }
+
+  let config: Record<string, any> = {};
+  try {
+    config = await transport.configGet(CONFIG_KEYS);
+  } catch (e) {
+    checks.push({
+      layer: "config",
+      check: "read",
+      status: "error",
+      detail: message(e),
+      hint: "Check access to the configuration storage",
+    });
+  }
+
+  const portal = await portalChecks(config.portal);
+  checks.push(...portal.checks);
+  checks.push(...(await oidcChecks(config)));
+  checks.push(...(await samlChecks(config)));
+  checks.push(...(await hostChecks(transport, portal.serverDate)));
+
+  const worst = checks.reduce<DiagnosticStatus>(
+    (acc, c) => (SEVERITY[c.status] > SEVERITY[acc] ? c.status : acc),
+    "ok",
+  );
+  return { status: worst, checks };
+}
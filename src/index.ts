@@ -12,8 +12,18 @@ import { registerOidcTools } from "./tools/oidc.js";
 import { registerOidcRpTools } from "./tools/oidc-rp.js";
 import { registerInstanceTools } from "./tools/instances.js";
 import { registerCliUtilityTools } from "./tools/cli-utilities.js";
+import { registerUserTools } from "./tools/users.js";
+import { registerDiagnoseTools } from "./tools/diagnose.js";
+import { registerConfigAuditTools } from "./tools/config-audit.js";
 import { registerDocumentationResource } from "./resources/documentation.js";
 import { registerDocSearchTools } from "./tools/doc-search.js";
+import { registerAuditTools } from "./tools/audit.js";
+import { AuditLog, enableAudit } from "./audit.js";
+import { enableCancellation } from "./cancellation.js";
+import { enforcePolicy } from "./policy.js";
+import { SnapshotStore, enableSnapshots } from "./snapshots.js";
+import { ConfigAuditor } from "./config-audit.js";
+import { registerSnapshotTools } from "./tools/snapshots.js";
 
 async function main() {
   const multiConfig = loadMultiConfig();
@@ -25,6 +35,20 @@ async function main() {
     version: "0.1.0",
   });
 
+  // Abort running commands and requests when the client cancels a tool call
+  enableCancellation(server);
+
+  // Record mutating tool calls; must be enabled before tools are registered
+  const auditLog = new AuditLog(multiConfig.audit);
+  enableAudit(server, registry, auditLog);
+
+  // Refuse tools forbidden by the targeted instance's policy
+  enforcePolicy(server, registry);
+
+  // Keep a local copy of the configuration before each config change
+  const snapshotStore = new SnapshotStore(multiConfig.snapshots);
+  enableSnapshots(server, registry, snapshotStore);
+
   // Register all tools
   registerConfigTools(server, registry);
   registerSessionTools(server, registry);
@@ -34,6 +58,11 @@ async function main() {
   registerOidcRpTools(server, registry);
   registerInstanceTools(server, registry);
   registerCliUtilityTools(server, registry);
+  registerUserTools(server, registry);
+  registerDiagnoseTools(server, registry);
+  registerConfigAuditTools(server, registry, new ConfigAuditor(multiConfig.securityAudit));
+  registerAuditTools(server, auditLog);
+  registerSnapshotTools(server, registry, snapshotStore);
 
   // Register doc search (optional - requires pre-built index and ollama)
   try {
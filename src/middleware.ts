@@ -0,0 +1,35 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+export type ToolHandler = (args: any, extra: any) => Promise<any>;
+
+/**
+ * Wraps the handler of a tool at registration time. `schema` is the tool's
+ * parameter shape, when it has one.
+ */
+export type ToolMiddleware = (
+  name: string,
+  handler: ToolHandler,
+  schema: Record<string, unknown> | undefined,
+) => ToolHandler;
+
+/**
+ * Apply a middleware to every tool registered on the server afterwards.
+ * Middlewares installed first are outermost and see the result of later ones.
+ */
+export function useToolMiddleware(server: McpServer, middleware: ToolMiddleware): void {
+  const register = server.tool.bind(server) as (...params: any[]) => any;
+
+  (server as { tool: (...params: any[]) => any }).tool = (...params: any[]) => {
+    const name = params[0];
+    const handler = params[params.length - 1];
+    if (typeof handler === "function") {
+      // server.tool(name, [description], [schema], handler)
+      const schema =
+        params.length >= 3 && typeof params[params.length - 2] === "object"
+          ? params[params.length - 2]
+          : undefined;
+      params[params.length - 1] = middleware(name, handler, schema);
+    }
+    return register(...params);
+  };
+}
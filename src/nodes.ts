@@ -0,0 +1,45 @@
+import { ILlngTransport } from "./transport/interface.js";
+
+export interface NodeResult<T> {
+  node: string;
+  result?: T;
+  error?: string;
+}
+
+export const ALL_NODES_DESCRIPTION =
+  "Run on every node of the instance (all SSH hosts or all matching pods) and return per-node results";
+
+/**
+ * Run `operation` on every node of the transport. A failing node is reported
+ * in its result and does not stop the others.
+ */
+export async function runOnAllNodes<T>(
+  transport: ILlngTransport,
+  operation: (node: ILlngTransport) => Promise<T>,
+): Promise<NodeResult<T>[]> {
+  const nodes = await transport.listNodes();
+  return Promise.all(
+    nodes.map(async (node) => {
+      try {
+        return { node, result: await operation(transport.forNode(node)) };
+      } catch (e: unknown) {
+        return { node, error: e instanceof Error ? e.message : String(e) };
+      }
+    }),
+  );
+}
+
+/**
+ * Tool result for a fan-out: per-node JSON, flagged as error if any node failed.
+ */
+export function nodeResultsContent<T>(results: NodeResult<T>[]) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({ nodes: results }, null, 2),
+      },
+    ],
+    ...(results.some((r) => r.error !== undefined) ? { isError: true } : {}),
+  };
+}
@@ -0,0 +1,114 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InstancePolicy } from "./config.js";
+import { useToolMiddleware } from "./middleware.js";
+import { TransportRegistry } from "./transport/registry.js";
+
+/**
+ * Tools that change the configuration.
+ */
+export const CONFIG_MUTATING_TOOLS = new Set([
+  "llng_config_set",
+  "llng_config_addKey",
+  "llng_config_delKey",
+  "llng_config_import",
+  "llng_config_merge",
+  "llng_config_rollback",
+  "llng_oidc_issuer_enable",
+  "llng_oidc_rp_add",
+  "llng_oidc_rp_delete",
+  "llng_rotate_oidc_keys",
+  "llng_import_metadata",
+  "llng_snapshot_restore",
+  "llng_config_promote",
+]);
+
+/**
+ * Config-mutating tools that always ask for confirmation: a call without
+ * confirmToken only returns a summary and a token, and changes nothing.
+ */
+export const CONFIRMED_CONFIG_TOOLS = new Set([
+  "llng_config_import",
+  "llng_config_rollback",
+  "llng_oidc_rp_delete",
+  "llng_snapshot_restore",
+  "llng_config_promote",
+]);
+
+/**
+ * Tools that change the configuration, sessions, second factors or consents.
+ * They are refused on read-only instances and recorded in the audit log.
+ */
+export const MUTATING_TOOLS = new Set([
+  ...CONFIG_MUTATING_TOOLS,
+  "llng_session_delete",
+  "llng_session_setKey",
+  "llng_session_delKey",
+  "llng_delete_session",
+  "llng_purge_central_cache",
+  "llng_2fa_delete",
+  "llng_2fa_delType",
+  "llng_consent_delete",
+  "llng_user_offboard",
+  "llng_session_bulk_delete",
+  "llng_session_bulk_setKey",
+]);
+
+/**
+ * Match a tool name against a glob where "*" matches any sequence and "?"
+ * a single character.
+ */
+export function matchToolGlob(pattern: string, tool: string): boolean {
+  const regex = pattern
+    .split("")
+    .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${regex}$`).test(tool);
+}
+
+/**
+ * Return why a tool is refused by a policy, or undefined when it is allowed.
+ * A deny match always wins, then readOnly refuses mutating tools, then an
+ * allow list (when present) must match.
+ */
+export function policyDenialReason(
+  policy: InstancePolicy | undefined,
+  tool: string,
+): string | undefined {
+  if (!policy) return undefined;
+  if (policy.deny?.some((pattern) => matchToolGlob(pattern, tool))) {
+    return "denied by policy";
+  }
+  if (policy.readOnly && MUTATING_TOOLS.has(tool)) {
+    return "instance is read-only";
+  }
+  if (policy.allow && !policy.allow.some((pattern) => matchToolGlob(pattern, tool))) {
+    return "not in the allow list";
+  }
+  return undefined;
+}
+
+/**
+ * Refuse calls forbidden by the policy of the targeted instance. Only tools
+ * taking an `instance` parameter are subject to instance policies.
+ */
+export function enforcePolicy(server: McpServer, registry: TransportRegistry): void {
+  useToolMiddleware(server, (name, handler, schema) => {
+    if (!schema || !("instance" in schema)) return handler;
+    return async (args, extra) => {
+      try {
+        registry.checkToolAllowed(name, args?.instance);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      return handler(args, extra);
+    };
+  });
+}
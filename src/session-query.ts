@@ -0,0 +1,213 @@
+import { BlockList, isIP } from "net";
+import { ILlngTransport, SessionFilter } from "./transport/interface.js";
+
+export const SESSION_QUERY_OPERATORS = [
+  "eq",
+  "ne",
+  "wildcard",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "cidr",
+] as const;
+
+export type SessionQueryOperator = (typeof SESSION_QUERY_OPERATORS)[number];
+
+export interface SessionCondition {
+  field: string;
+  op: SessionQueryOperator;
+  value: string | number;
+}
+
+export interface SessionQuery {
+  filter: SessionFilter; // exact where pairs and backend options, pushed down as is
+  conditions?: SessionCondition[]; // all must match
+  anyOf?: SessionCondition[][]; // at least one group must fully match
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
+  offset?: number;
+  limit?: number;
+}
+
+export interface SessionPage {
+  total: number;
+  offset: number;
+  limit: number;
+  sessions: any[];
+}
+
+export const DEFAULT_SESSION_PAGE_SIZE = 100;
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  const text = String(value);
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  // Dates are compared as epoch seconds, like _utime and _lastSeen
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? NaN : time / 1000;
+}
+
+function wildcardRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+function inCidr(address: unknown, cidr: string): boolean {
+  const [network, prefix] = cidr.split("/");
+  const family = isIP(network);
+  if (!family) throw new Error(`Invalid CIDR '${cidr}'`);
+  const type = family === 4 ? "ipv4" : "ipv6";
+  const ip = String(address ?? "");
+  if (isIP(ip) !== family) return false;
+  const list = new BlockList();
+  list.addSubnet(network, prefix === undefined ? (family === 4 ? 32 : 128) : Number(prefix), type);
+  return list.check(ip, type);
+}
+
+export function matchesCondition(
+  session: Record<string, any>,
+  condition: SessionCondition,
+): boolean {
+  const actual = session[condition.field];
+  switch (condition.op) {
+    case "eq":
+      return actual !== undefined && String(actual) === String(condition.value);
+    case "ne":
+      return actual === undefined || String(actual) !== String(condition.value);
+    case "wildcard":
+      return actual !== undefined && wildcardRegExp(String(condition.value)).test(String(actual));
+    case "gt":
+      return toNumber(actual) > toNumber(condition.value);
+    case "gte":
+      return toNumber(actual) >= toNumber(condition.value);
+    case "lt":
+      return toNumber(actual) < toNumber(condition.value);
+    case "lte":
+      return toNumber(actual) <= toNumber(condition.value);
+    case "cidr":
+      return inCidr(actual, String(condition.value));
+  }
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === undefined || a === null) return b === undefined || b === null ? 0 : 1;
+  if (b === undefined || b === null) return -1;
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (!Number.isNaN(na) && !Number.isNaN(nb)) return na - nb;
+  return String(a).localeCompare(String(b));
+}
+
+// A count search returns a number, a { count } object or the sessions
+function searchCount(result: unknown): number {
+  if (typeof result === "number") return result;
+  if (Array.isArray(result)) return result.length;
+  if (result !== null && typeof result === "object" && "count" in result) {
+    return Number(result.count);
+  }
+  return 0;
+}
+
+export function sessionId(session: any): string {
+  return typeof session === "string" ? session : (session._session_id ?? session.id);
+}
+
+/**
+ * Run a session search. Exact equality conditions are pushed down to the
+ * transport as `where` pairs (supported by both lemonldap-ng-sessions and
+ * the REST API). The other operators, OR groups, sorting and pagination are
+ * applied to the returned sessions. Without `filter.count`, the result is
+ * always a page.
+ */
+export async function querySessions(
+  transport: ILlngTransport,
+  query: SessionQuery & { filter: { count?: false } },
+): Promise<SessionPage>;
+export async function querySessions(
+  transport: ILlngTransport,
+  query: SessionQuery,
+): Promise<SessionPage | { count: number }>;
+export async function querySessions(
+  transport: ILlngTransport,
+  query: SessionQuery,
+): Promise<SessionPage | { count: number }> {
+  const conditions = query.conditions ?? [];
+  const anyOf = query.anyOf ?? [];
+  const filter: SessionFilter = { ...query.filter };
+
+  const where = { ...filter.where };
+  const clientSide: SessionCondition[] = [];
+  for (const condition of conditions) {
+    if (condition.op === "eq" && where[condition.field] === undefined) {
+      where[condition.field] = String(condition.value);
+    } else {
+      clientSide.push(condition);
+    }
+  }
+  if (Object.keys(where).length > 0) filter.where = where;
+
+  const needsSessions = clientSide.length > 0 || anyOf.length > 0 || query.sortBy !== undefined;
+
+  // Plain count can be answered by the backend
+  if (filter.count && !needsSessions) {
+    return { count: searchCount(await transport.sessionSearch(filter)) };
+  }
+
+  const wantIdOnly = filter.idOnly;
+  const wantSelect = filter.select;
+  if (needsSessions) {
+    // Fields used client-side must be fetched
+    filter.count = undefined;
+    filter.idOnly = undefined;
+    if (wantSelect || wantIdOnly) {
+      const fields = new Set(wantSelect ?? []);
+      fields.add("_session_id");
+      for (const c of [...clientSide, ...anyOf.flat()]) fields.add(c.field);
+      if (query.sortBy) fields.add(query.sortBy);
+      filter.select = [...fields];
+    }
+  }
+
+  let sessions: any[] = await transport.sessionSearch(filter);
+  if (!Array.isArray(sessions)) sessions = [];
+
+  if (needsSessions) {
+    sessions = sessions.filter(
+      (session) =>
+        clientSide.every((c) => matchesCondition(session, c)) &&
+        (anyOf.length === 0 ||
+          anyOf.some((group) => group.every((c) => matchesCondition(session, c)))),
+    );
+    if (query.sortBy) {
+      const field = query.sortBy;
+      const direction = query.sortOrder === "desc" ? -1 : 1;
+      sessions.sort((a, b) => direction * compareValues(a[field], b[field]));
+    }
+  }
+
+  if (query.filter.count) {
+    return { count: sessions.length };
+  }
+
+  if (needsSessions && wantIdOnly) {
+    sessions = sessions.map(sessionId);
+  } else if (needsSessions && wantSelect) {
+    const fields = new Set(["_session_id", "id", ...wantSelect]);
+    sessions = sessions.map((session) =>
+      Object.fromEntries(Object.entries(session).filter(([key]) => fields.has(key))),
+    );
+  }
+
+  const offset = query.offset ?? 0;
+  const limit = query.limit ?? DEFAULT_SESSION_PAGE_SIZE;
+  return {
+    total: sessions.length,
+    offset,
+    limit,
+    sessions: sessions.slice(offset, offset + limit),
+  };
+}
@@ -0,0 +1,162 @@
+import { isIP } from "net";
+
+export const SESSION_TIME_BUCKETS = ["minute", "hour", "day"] as const;
+export type SessionTimeBucket = (typeof SESSION_TIME_BUCKETS)[number];
+
+/**
+ * Derived groupings. Any other groupBy value is used as a session attribute
+ * name (e.g. _auth, _session_kind, authenticationLevel).
+ */
+const DERIVED_GROUPS: Record<string, { field: string; value: (raw: unknown) => string }> = {
+  ipPrefix: { field: "ipAddr", value: (raw) => ipPrefix(String(raw ?? "")) },
+  userAgentFamily: { field: "UA", value: (raw) => userAgentFamily(String(raw ?? "")) },
+};
+
+const BUCKET_SECONDS: Record<SessionTimeBucket, number> = {
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+};
+
+const UNKNOWN = "(none)";
+
+export interface SessionStatsOptions {
+  groupBy?: string;
+  bucket?: SessionTimeBucket;
+  top?: number;
+}
+
+export interface SessionGroupCount {
+  value: string;
+  count: number;
+}
+
+export interface SessionStats {
+  total: number;
+  distinct?: number;
+  groups?: SessionGroupCount[];
+  buckets?: { bucket: string; count: number; top?: SessionGroupCount[] }[];
+}
+
+/**
+ * IPv4 addresses are grouped by /24, IPv6 addresses by /64.
+ */
+export function ipPrefix(ip: string): string {
+  const family = isIP(ip);
+  if (family === 4) {
+    return `${ip.split(".").slice(0, 3).join(".")}.0/24`;
+  }
+  if (family === 6) {
+    const [head, tail = ""] = ip.split("::");
+    const headParts = head ? head.split(":") : [];
+    const tailParts = tail ? tail.split(":") : [];
+    const parts = [
+      ...headParts,
+      ...Array(8 - headParts.length - tailParts.length).fill("0"),
+      ...tailParts,
+    ];
+    return `${parts
+      .slice(0, 4)
+      .map((p) => p.toLowerCase().replace(/^0+(?=.)/, ""))
+      .join(":")}::/64`;
+  }
+  return UNKNOWN;
+}
+
+export function userAgentFamily(ua: string): string {
+  if (!ua) return UNKNOWN;
+  if (/Edg\//.test(ua)) return "Edge";
+  if (/OPR\/|Opera/.test(ua)) return "Opera";
+  if (/Firefox\//.test(ua)) return "Firefox";
+  if (/Chrome\/|CriOS\//.test(ua)) return "Chrome";
+  if (/Safari\//.test(ua)) return "Safari";
+  if (/curl\//i.test(ua)) return "curl";
+  return "Other";
+}
+
+/**
+ * Session attributes to fetch to compute the statistics.
+ */
+export function sessionStatsFields(options: SessionStatsOptions): string[] {
+  const fields: string[] = [];
+  if (options.groupBy) fields.push(DERIVED_GROUPS[options.groupBy]?.field ?? options.groupBy);
+  if (options.bucket) fields.push("_utime");
+  return fields;
+}
+
+function groupValue(session: Record<string, any>, groupBy: string): string {
+  const derived = DERIVED_GROUPS[groupBy];
+  if (derived) return derived.value(session[derived.field]);
+  const raw = session[groupBy];
+  return raw === undefined || raw === null || raw === "" ? UNKNOWN : String(raw);
+}
+
+function bucketStart(session: Record<string, any>, bucket: SessionTimeBucket): string {
+  const utime = Number(session._utime);
+  if (!Number.isFinite(utime)) return UNKNOWN;
+  const size = BUCKET_SECONDS[bucket];
+  return new Date(Math.floor(utime / size) * size * 1000).toISOString();
+}
+
+function topCounts(
+  values: string[],
+  top: number,
+): { groups: SessionGroupCount[]; distinct: number } {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  const groups = [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  return { groups: groups.slice(0, top), distinct: counts.size };
+}
+
+/**
+ * Count sessions by attribute and/or time bucket of _utime. With both, each
+ * bucket holds the top values of the attribute within that bucket.
+ */
+export function computeSessionStats(
+  sessions: Record<string, any>[],
+  options: SessionStatsOptions,
+): SessionStats {
+  const top = options.top ?? 10;
+  const stats: SessionStats = { total: sessions.length };
+
+  if (!options.bucket) {
+    if (options.groupBy) {
+      const groupBy = options.groupBy;
+      const { groups, distinct } = topCounts(
+        sessions.map((s) => groupValue(s, groupBy)),
+        top,
+      );
+      stats.distinct = distinct;
+      stats.groups = groups;
+    }
+    return stats;
+  }
+
+  const byBucket = new Map<string, Record<string, any>[]>();
+  for (const session of sessions) {
+    const key = bucketStart(session, options.bucket);
+    const list = byBucket.get(key) ?? [];
+    list.push(session);
+    byBucket.set(key, list);
+  }
+
+  stats.buckets = [...byBucket.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([bucket, list]) => {
+      const entry: { bucket: string; count: number; top?: SessionGroupCount[] } = {
+        bucket,
+        count: list.length,
+      };
+      if (options.groupBy) {
+        const groupBy = options.groupBy;
+        entry.top = topCounts(
+          list.map((s) => groupValue(s, groupBy)),
+          top,
+        ).groups;
+      }
+      return entry;
+    });
+  return stats;
+}
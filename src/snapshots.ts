@@ -0,0 +1,148 @@
+import { mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SnapshotConfig } from "./config.js";
+import { useToolMiddleware } from "./middleware.js";
+import { CONFIG_MUTATING_TOOLS, CONFIRMED_CONFIG_TOOLS } from "./policy.js";
+import { TransportRegistry } from "./transport/registry.js";
+
+const DEFAULT_KEEP = 20;
+
+export interface SnapshotInfo {
+  cfgNum: number;
+  cfgAuthor?: string;
+  cfgDate?: string;
+  cfgLog?: string;
+  savedAt: string;
+}
+
+/**
+ * Local, rotating store of full configuration copies, one directory per
+ * instance and one file per cfgNum.
+ */
+export class SnapshotStore {
+  readonly dir: string;
+  readonly keep: number;
+
+  constructor(config: SnapshotConfig = {}) {
+    this.dir =
+      process.env.LLNG_SNAPSHOT_DIR || config.dir || join(homedir(), ".llng-mcp", "snapshots");
+    this.keep = config.keep ?? DEFAULT_KEEP;
+  }
+
+  private instanceDir(instance: string): string {
+    return join(this.dir, instance.replace(/[^\w.-]/g, "_"));
+  }
+
+  private file(instance: string, cfgNum: number): string {
+    return join(this.instanceDir(instance), `${cfgNum}.json`);
+  }
+
+  has(instance: string, cfgNum: number): boolean {
+    try {
+      statSync(this.file(instance, cfgNum));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Store a configuration (as returned by configSave) and drop the oldest
+   * snapshots beyond the retention limit. Returns the stored cfgNum.
+   */
+  save(instance: string, json: string): number {
+    const cfgNum = Number(JSON.parse(json).cfgNum);
+    if (!Number.isInteger(cfgNum)) {
+      throw new Error("Cannot snapshot a configuration without cfgNum");
+    }
+    mkdirSync(this.instanceDir(instance), { recursive: true, mode: 0o700 });
+    writeFileSync(this.file(instance, cfgNum), json, { mode: 0o600 });
+
+    for (const old of this.cfgNums(instance).slice(this.keep)) {
+      rmSync(this.file(instance, old), { force: true });
+    }
+    return cfgNum;
+  }
+
+  load(instance: string, cfgNum: number): string {
+    try {
+      return readFileSync(this.file(instance, cfgNum), "utf-8");
+    } catch {
+      throw new Error(`No snapshot of config ${cfgNum} for instance '${instance}'`);
+    }
+  }
+
+  /**
+   * List snapshots of an instance, newest first.
+   */
+  list(instance: string): SnapshotInfo[] {
+    return this.cfgNums(instance).map((cfgNum) => {
+      const file = this.file(instance, cfgNum);
+      const config = JSON.parse(readFileSync(file, "utf-8"));
+      return {
+        cfgNum,
+        cfgAuthor: config.cfgAuthor,
+        cfgDate: config.cfgDate,
+        cfgLog: config.cfgLog,
+        savedAt: statSync(file).mtime.toISOString(),
+      };
+    });
+  }
+
+  private cfgNums(instance: string): number[] {
+    let files: string[];
+    try {
+      files = readdirSync(this.instanceDir(instance));
+    } catch {
+      return [];
+    }
+    return files
+      .map((name) => /^(\d+)\.json$/.exec(name))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => Number(match[1]))
+      .sort((a, b) => b - a);
+  }
+}
+
+/**
+ * Snapshot the current configuration before every config-mutating tool
+ * registered afterwards runs. Dry runs and calls that only ask for
+ * confirmation are skipped. When the snapshot cannot be taken, the change
+ * is refused.
+ */
+export function enableSnapshots(
+  server: McpServer,
+  registry: TransportRegistry,
+  store: SnapshotStore,
+): void {
+  useToolMiddleware(server, (name, handler) => {
+    if (!CONFIG_MUTATING_TOOLS.has(name)) return handler;
+    // Without a token, these tools only issue one: the snapshot is taken on the confirmed call
+    const confirmed = CONFIRMED_CONFIG_TOOLS.has(name);
+    return async (args, extra) => {
+      if (!args?.dryRun && (!confirmed || args?.confirmToken)) {
+        try {
+          const instance = args?.instance || registry.getDefaultInstance();
+          const transport = registry.getTransport(args?.instance, "manager");
+          const { cfgNum } = await transport.configInfo();
+          if (!store.has(instance, cfgNum)) {
+            store.save(instance, await transport.configSave(cfgNum));
+          }
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: Could not snapshot the configuration before change: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+      return handler(args, extra);
+    };
+  });
+}
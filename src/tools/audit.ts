@@ -0,0 +1,47 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AuditLog } from "../audit.js";
+
+export function registerAuditTools(server: McpServer, auditLog: AuditLog): void {
+  server.tool(
+    "llng_audit_query",
+    "Search the audit log of mutating tool calls, newest first",
+    {
+      user: z.string().optional().describe("Actor who made the call, or user targeted by the call"),
+      tool: z.string().optional().describe("Tool name (e.g. llng_session_delete)"),
+      instance: z.string().optional().describe("LLNG instance name"),
+      since: z.string().optional().describe("Start of the time range (ISO 8601)"),
+      until: z.string().optional().describe("End of the time range (ISO 8601)"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(100)
+        .describe("Maximum number of records to return (default: 100)"),
+    },
+    async (args) => {
+      try {
+        const result = auditLog.query(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+}
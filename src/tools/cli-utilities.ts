@@ -1,6 +1,8 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { TransportRegistry } from "../transport/registry.js";
+import { CONFIRM_TOKEN_DESCRIPTION, requireConfirmation } from "../confirm.js";
+import { ALL_NODES_DESCRIPTION, nodeResultsContent, runOnAllNodes } from "../nodes.js";
 
 export function registerCliUtilityTools(server: McpServer, registry: TransportRegistry): void {
   // llng_download_saml_metadata
@@ -85,11 +87,26 @@ export function registerCliUtilityTools(server: McpServer, registry: TransportRe
       uid: z.string().describe("UID pattern to match for session deletion"),
       force: z.boolean().optional().describe("Force deletion without confirmation"),
       debug: z.boolean().optional().describe("Enable debug output"),
+      confirmToken: z.string().optional().describe(CONFIRM_TOKEN_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (params) => {
       try {
         const transport = registry.getTransport(params.instance);
+        const prompt = await requireConfirmation("llng_delete_session", params, async () => {
+          try {
+            const matching = await transport.sessionSearch({
+              where: { uid: params.uid },
+              idOnly: true,
+            });
+            return {
+              summary: `will delete ${matching.length.toLocaleString("en-US")} session(s) of uid '${params.uid}'`,
+            };
+          } catch {
+            return { summary: `will delete all sessions of users matching uid '${params.uid}'` };
+          }
+        });
+        if (prompt) return prompt;
         const args: string[] = ["--uid", params.uid];
         if (params.force) args.push("--force");
         if (params.debug) args.push("--debug");
@@ -137,11 +154,16 @@ export function registerCliUtilityTools(server: McpServer, registry: TransportRe
       debug: z.boolean().optional().describe("Enable debug output"),
       force: z.boolean().optional().describe("Force purge without confirmation"),
       json: z.boolean().optional().describe("Output in JSON format"),
+      confirmToken: z.string().optional().describe(CONFIRM_TOKEN_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (params) => {
       try {
         const transport = registry.getTransport(params.instance);
+        const prompt = await requireConfirmation("llng_purge_central_cache", params, async () => ({
+          summary: "will purge expired sessions from the central session storage",
+        }));
+        if (prompt) return prompt;
         const args: string[] = [];
         if (params.debug) args.push("--debug");
         if (params.force) args.push("--force");
@@ -163,6 +185,7 @@ export function registerCliUtilityTools(server: McpServer, registry: TransportRe
     "Purge expired sessions from local handler cache",
     {
       debug: z.boolean().optional().describe("Enable debug output"),
+      allNodes: z.boolean().optional().describe(ALL_NODES_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (params) => {
@@ -170,6 +193,11 @@ export function registerCliUtilityTools(server: McpServer, registry: TransportRe
         const transport = registry.getTransport(params.instance);
         const args: string[] = [];
         if (params.debug) args.push("--debug");
+        if (params.allNodes) {
+          return nodeResultsContent(
+            await runOnAllNodes(transport, (node) => node.execScript("purgeLocalCache", args)),
+          );
+        }
         const result = await transport.execScript("purgeLocalCache", args);
         return { content: [{ type: "text", text: result }] };
       } catch (e: unknown) {
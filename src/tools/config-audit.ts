@@ -0,0 +1,48 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ConfigAuditor, SEVERITIES } from "../config-audit.js";
+import { loadFullConfig } from "../config-diff.js";
+import { TransportRegistry } from "../transport/registry.js";
+
+export function registerConfigAuditTools(
+  server: McpServer,
+  registry: TransportRegistry,
+  auditor: ConfigAuditor,
+): void {
+  server.tool(
+    "llng_config_audit",
+    "Audit the security posture of an instance's configuration: cookie flags, brute-force and CSRF protection, OIDC flows and clients, password policy, CORS, session lifetime, log level. Returns findings with severity and remediation",
+    {
+      minSeverity: z
+        .enum(SEVERITIES)
+        .optional()
+        .describe("Only report findings of this severity or worse (default: info)"),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const transport = registry.getTransport(args.instance, "manager");
+        const config = await loadFullConfig(transport);
+        const report = auditor.run(config, args.minSeverity);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ rulesFile: auditor.rulesFile, ...report }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+}
@@ -1,6 +1,46 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { TransportRegistry } from "../transport/registry.js";
+import { ConfigConflictError } from "../transport/interface.js";
+import {
+  ConfigDiff,
+  deepMerge,
+  diffConfig,
+  formatDiffSummary,
+  checkConfigConflict,
+  loadFullConfig,
+  previewConfigChange,
+} from "../config-diff.js";
+import { CONFIRM_TOKEN_DESCRIPTION, confirmWithState, requireConfirmation } from "../confirm.js";
+import {
+  SKIP_VALIDATION_DESCRIPTION,
+  assertValidConfig,
+  loadAttributeCatalogue,
+  suggestAttributes,
+  validateConfigSubkey,
+  validateConfigValues,
+  validationSkippedNote,
+} from "../config-schema.js";
+import { PromoteSelection, applyPromotion, buildPromotion } from "../config-promote.js";
+import { findDocExcerpts } from "./doc-search.js";
+import { ALL_NODES_DESCRIPTION, nodeResultsContent, runOnAllNodes } from "../nodes.js";
+
+const EXPECTED_CFG_NUM_DESCRIPTION =
+  "Reject the write if the keys being edited changed since this cfgNum was read (concurrent edits of other keys are rebased automatically)";
+
+const DRY_RUN_DESCRIPTION =
+  "Compute the resulting configuration and return a diff against the current one without writing anything";
+
+function dryRunResult(diff: ConfigDiff) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({ dryRun: true, ...diff }, null, 2),
+      },
+    ],
+  };
+}
 
 /**
  * Register LLNG configuration management tools
@@ -44,11 +84,15 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
     "llng_health",
     "Health check: verify config database access, session read access, and session write access",
     {
+      allNodes: z.boolean().optional().describe(ALL_NODES_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
         const transport = registry.getTransport(args.instance);
+        if (args.allNodes) {
+          return nodeResultsContent(await runOnAllNodes(transport, (node) => node.healthCheck()));
+        }
         const result = await transport.healthCheck();
         return {
           content: [
@@ -81,11 +125,17 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
         .enum(["config", "sessions", "all"])
         .default("all")
         .describe("Which cache to flush: config, sessions, or all"),
+      allNodes: z.boolean().optional().describe(ALL_NODES_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
         const transport = registry.getTransport(args.instance);
+        if (args.allNodes) {
+          return nodeResultsContent(
+            await runOnAllNodes(transport, (node) => node.flushCache(args.target)),
+          );
+        }
         const result = await transport.flushCache(args.target);
         return {
           content: [
@@ -114,11 +164,15 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
     "llng_version",
     "Get the LemonLDAP::NG version installed on the instance",
     {
+      allNodes: z.boolean().optional().describe(ALL_NODES_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
         const transport = registry.getTransport(args.instance);
+        if (args.allNodes) {
+          return nodeResultsContent(await runOnAllNodes(transport, (node) => node.getVersion()));
+        }
         const version = await transport.getVersion();
         return {
           content: [
@@ -183,17 +237,32 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
     {
       keys: z.record(z.string(), z.any()).describe("Key-value pairs to set in config"),
       log: z.string().optional().describe("Optional log message for this change"),
+      dryRun: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+      expectedCfgNum: z.number().int().positive().optional().describe(EXPECTED_CFG_NUM_DESCRIPTION),
+      skipValidation: z.boolean().optional().describe(SKIP_VALIDATION_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
+        if (!args.skipValidation) {
+          assertValidConfig(validateConfigValues(args.keys));
+        }
         const transport = registry.getTransport(args.instance, "manager");
-        await transport.configSet(args.keys, args.log);
+        if (args.dryRun) {
+          const diff = await previewConfigChange(transport, (current) => ({
+            ...current,
+            ...args.keys,
+          }));
+          return dryRunResult(diff);
+        }
+        await transport.configSet(args.keys, args.log, {
+          expectedCfgNum: args.expectedCfgNum,
+        });
         return {
           content: [
             {
               type: "text",
-              text: "Config values updated successfully",
+              text: `Config values updated successfully${validationSkippedNote(args.skipValidation)}`,
             },
           ],
         };
@@ -219,17 +288,32 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
       key: z.string().describe("The composite config key"),
       subkey: z.string().describe("The subkey to add"),
       value: z.string().describe("The value for the subkey"),
+      dryRun: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+      expectedCfgNum: z.number().int().positive().optional().describe(EXPECTED_CFG_NUM_DESCRIPTION),
+      skipValidation: z.boolean().optional().describe(SKIP_VALIDATION_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
+        if (!args.skipValidation) {
+          assertValidConfig(validateConfigSubkey(args.key));
+        }
         const transport = registry.getTransport(args.instance, "manager");
-        await transport.configAddKey(args.key, args.subkey, args.value);
+        if (args.dryRun) {
+          const diff = await previewConfigChange(transport, (current) => ({
+            ...current,
+            [args.key]: { ...(current[args.key] || {}), [args.subkey]: args.value },
+          }));
+          return dryRunResult(diff);
+        }
+        await transport.configAddKey(args.key, args.subkey, args.value, {
+          expectedCfgNum: args.expectedCfgNum,
+        });
         return {
           content: [
             {
               type: "text",
-              text: `Subkey '${args.subkey}' added to '${args.key}' successfully`,
+              text: `Subkey '${args.subkey}' added to '${args.key}' successfully${validationSkippedNote(args.skipValidation)}`,
             },
           ],
         };
@@ -254,12 +338,25 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
     {
       key: z.string().describe("The composite config key"),
       subkey: z.string().describe("The subkey to delete"),
+      dryRun: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+      expectedCfgNum: z.number().int().positive().optional().describe(EXPECTED_CFG_NUM_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
         const transport = registry.getTransport(args.instance, "manager");
-        await transport.configDelKey(args.key, args.subkey);
+        if (args.dryRun) {
+          const diff = await previewConfigChange(transport, (current) => {
+            if (current[args.key] && typeof current[args.key] === "object") {
+              delete current[args.key][args.subkey];
+            }
+            return current;
+          });
+          return dryRunResult(diff);
+        }
+        await transport.configDelKey(args.key, args.subkey, {
+          expectedCfgNum: args.expectedCfgNum,
+        });
         return {
           content: [
             {
@@ -321,11 +418,25 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
     "Import LLNG config from JSON",
     {
       json: z.string().describe("JSON string of the config to import"),
+      dryRun: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+      confirmToken: z.string().optional().describe(CONFIRM_TOKEN_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
         const transport = registry.getTransport(args.instance, "manager");
+        if (args.dryRun) {
+          const diff = await previewConfigChange(transport, () => JSON.parse(args.json));
+          return dryRunResult(diff);
+        }
+        const prompt = await requireConfirmation("llng_config_import", args, async () => {
+          const diff = await previewConfigChange(transport, () => JSON.parse(args.json));
+          return {
+            summary: `will replace the whole configuration (${formatDiffSummary(diff)})`,
+            details: diff,
+          };
+        });
+        if (prompt) return prompt;
         await transport.configRestore(args.json);
         return {
           content: [
@@ -355,17 +466,30 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
     "Merge JSON snippet into LLNG config",
     {
       json: z.string().describe("JSON string to merge into config"),
+      dryRun: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+      expectedCfgNum: z.number().int().positive().optional().describe(EXPECTED_CFG_NUM_DESCRIPTION),
+      skipValidation: z.boolean().optional().describe(SKIP_VALIDATION_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
+        if (!args.skipValidation) {
+          assertValidConfig(validateConfigValues(JSON.parse(args.json)));
+        }
         const transport = registry.getTransport(args.instance, "manager");
-        await transport.configMerge(args.json);
+        if (args.dryRun) {
+          const snippet = JSON.parse(args.json);
+          const diff = await previewConfigChange(transport, (current) =>
+            deepMerge(current, snippet),
+          );
+          return dryRunResult(diff);
+        }
+        await transport.configMerge(args.json, { expectedCfgNum: args.expectedCfgNum });
         return {
           content: [
             {
               type: "text",
-              text: "Config merged successfully",
+              text: `Config merged successfully${validationSkippedNote(args.skipValidation)}`,
             },
           ],
         };
@@ -383,22 +507,50 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
     },
   );
 
-  // 9. llng_config_rollback - Rollback LLNG config to previous version
+  // 9. llng_config_rollback - Rollback LLNG config to previous or given version
   server.tool(
     "llng_config_rollback",
-    "Rollback LLNG config to previous version",
+    "Rollback LLNG config to the previous version, or restore a specific revision as a new config",
     {
+      cfgNum: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Configuration number to restore (defaults to the previous one)"),
+      confirmToken: z.string().optional().describe(CONFIRM_TOKEN_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
         const transport = registry.getTransport(args.instance, "manager");
-        await transport.configRollback();
+        const { prompt, state } = await confirmWithState("llng_config_rollback", args, async () => {
+          const current = await loadFullConfig(transport);
+          const target = args.cfgNum ?? current.cfgNum - 1;
+          const diff = diffConfig(current, JSON.parse(await transport.configSave(target)));
+          return {
+            summary: `will restore configuration ${target} over ${current.cfgNum} (${formatDiffSummary(diff)})`,
+            details: diff,
+            state: { targetCfgNum: target, currentCfgNum: current.cfgNum as number },
+          };
+        });
+        if (prompt) return prompt;
+        // Restore the revision that was confirmed, over the configuration it was compared to
+        if (state) {
+          const { cfgNum } = await transport.configInfo();
+          if (cfgNum !== state.currentCfgNum) {
+            throw new ConfigConflictError(state.currentCfgNum, cfgNum, []);
+          }
+        }
+        await transport.configRollback(state?.targetCfgNum ?? args.cfgNum);
         return {
           content: [
             {
               type: "text",
-              text: "Config rolled back successfully",
+              text:
+                args.cfgNum !== undefined
+                  ? `Config rolled back to revision ${args.cfgNum} successfully`
+                  : "Config rolled back successfully",
             },
           ],
         };
@@ -421,10 +573,22 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
     "llng_config_update_cache",
     "Force LLNG config cache update",
     {
+      allNodes: z.boolean().optional().describe(ALL_NODES_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
+        if (args.allNodes) {
+          // Caches live on the portal/handler nodes, not on the manager
+          const results = await runOnAllNodes(
+            registry.getTransport(args.instance),
+            async (node) => {
+              await node.configUpdateCache();
+              return "Config cache updated successfully";
+            },
+          );
+          return nodeResultsContent(results);
+        }
         const transport = registry.getTransport(args.instance, "manager");
         await transport.configUpdateCache();
         return {
@@ -482,4 +646,277 @@ export function registerConfigTools(server: McpServer, registry: TransportRegist
       }
     },
   );
+
+  // 12. llng_config_history - List previous configuration revisions
+  server.tool(
+    "llng_config_history",
+    "List previous LLNG configuration revisions (number, author, date, log), newest first",
+    {
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(10)
+        .describe("Maximum number of revisions to return (default: 10)"),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const transport = registry.getTransport(args.instance, "manager");
+        const result = await transport.configHistory(args.limit);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // 13. llng_config_diff - Diff two configuration revisions
+  server.tool(
+    "llng_config_diff",
+    "Show the differences between two LLNG configuration revisions",
+    {
+      from: z.number().int().positive().describe("Base configuration number"),
+      to: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Configuration number to compare with (defaults to the latest)"),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const transport = registry.getTransport(args.instance, "manager");
+        const before = JSON.parse(await transport.configSave(args.from));
+        const after = JSON.parse(await transport.configSave(args.to));
+        const revision = (config: Record<string, any>) => ({
+          cfgNum: config.cfgNum,
+          cfgAuthor: config.cfgAuthor,
+          cfgDate: config.cfgDate,
+          cfgLog: config.cfgLog,
+        });
+        const result = {
+          from: revision(before),
+          to: revision(after),
+          ...diffConfig(before, after),
+        };
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // 14. llng_config_explain - Explain a config key: live value, default, type and docs
+  server.tool(
+    "llng_config_explain",
+    "Explain an LLNG config key: its current value on the instance, its default, type, allowed values and the matching documentation excerpts (looked up by key name, no Ollama needed)",
+    {
+      key: z.string().describe("Config key, e.g. cookieExpiration"),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const transport = registry.getTransport(args.instance, "manager");
+        const current = await transport.configGet([args.key]);
+        const catalogue = loadAttributeCatalogue();
+        const definition = catalogue?.attributes[args.key];
+
+        const result: Record<string, any> = {
+          key: args.key,
+          value: current[args.key] ?? null,
+        };
+        if (definition) {
+          result.default = definition.default ?? null;
+          result.type = definition.type;
+          if (definition.select) result.allowedValues = definition.select;
+          if (definition.documentation) result.description = definition.documentation;
+          if (definition.link) result.link = definition.link;
+        } else if (catalogue) {
+          result.unknownKey = true;
+          result.didYouMean = suggestAttributes(args.key, catalogue);
+        }
+        result.docs = findDocExcerpts(args.key);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // 15. llng_config_promote - Copy keys or objects from another instance
+  server.tool(
+    "llng_config_promote",
+    "Promote configuration from another instance (e.g. staging to prod): copy selected keys, OIDC RPs, virtual hosts or SAML SPs, rewriting hostnames/URLs. Shows the diff on the target and asks for confirmation first",
+    {
+      source: z.string().describe("Instance to copy from"),
+      keys: z.array(z.string()).optional().describe("Top-level config keys to copy as a whole"),
+      oidcRPs: z.array(z.string()).optional().describe("OIDC RP confKeys to copy"),
+      virtualHosts: z.array(z.string()).optional().describe("Virtual host names to copy"),
+      samlSPs: z.array(z.string()).optional().describe("SAML SP confKeys to copy"),
+      rewrite: z
+        .array(z.object({ from: z.string(), to: z.string() }))
+        .optional()
+        .describe(
+          'Hostname/URL rewrite rules applied to copied names and values, "*" matching the leading labels of a hostname (e.g. {"from":"*.staging.example.com","to":"*.example.com"})',
+        ),
+      secrets: z
+        .enum(["copy", "exclude", "regenerate"])
+        .optional()
+        .describe(
+          "copy (default), exclude (the target keeps its own secrets) or regenerate (new OIDC client secrets, returned in the result; other secrets excluded)",
+        ),
+      log: z.string().optional().describe("Log message for the new target revision"),
+      dryRun: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+      confirmToken: z.string().optional().describe(CONFIRM_TOKEN_DESCRIPTION),
+      instance: z
+        .string()
+        .optional()
+        .describe("Target LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const targetInstance = args.instance || registry.getDefaultInstance();
+        if (args.source === targetInstance) {
+          throw new Error("Source and target instances must differ");
+        }
+        const selection: PromoteSelection = {
+          keys: args.keys,
+          objects: [
+            ...(args.oidcRPs ?? []).map((name) => ({ type: "oidcRP" as const, name })),
+            ...(args.virtualHosts ?? []).map((name) => ({ type: "virtualHost" as const, name })),
+            ...(args.samlSPs ?? []).map((name) => ({ type: "samlSP" as const, name })),
+          ],
+        };
+        if (!selection.keys?.length && !selection.objects?.length) {
+          throw new Error("Nothing to promote: give keys, oidcRPs, virtualHosts or samlSPs");
+        }
+
+        // The policy middleware only checks the target: reading the whole source
+        // config must be allowed there as an export would be
+        registry.checkToolAllowed("llng_config_export", args.source);
+        const sourceTransport = registry.getTransport(args.source, "manager");
+        const source = await loadFullConfig(sourceTransport);
+        const transport = registry.getTransport(args.instance, "manager");
+        const options = { rewrite: args.rewrite, secrets: args.secrets };
+        const preview = async () => {
+          // Secrets are only generated for the actual write
+          const promotion = buildPromotion(source, selection, {
+            ...options,
+            generateSecret: () => "<regenerated>",
+          });
+          const current = await loadFullConfig(transport);
+          const diff = diffConfig(current, applyPromotion(structuredClone(current), promotion));
+          return { promotion, diff, cfgNum: current.cfgNum as number };
+        };
+
+        if (args.dryRun) {
+          return dryRunResult((await preview()).diff);
+        }
+        const { prompt, state } = await confirmWithState("llng_config_promote", args, async () => {
+          const { promotion, diff, cfgNum } = await preview();
+          return {
+            summary: `will promote ${promotion.items.length} item(s) from '${args.source}' to '${targetInstance}' (${formatDiffSummary(diff)})`,
+            details: {
+              items: promotion.items,
+              excludedSecrets: promotion.excludedSecrets,
+              ...diff,
+            },
+            state: { sourceCfgNum: source.cfgNum as number, targetCfgNum: cfgNum },
+          };
+        });
+        if (prompt) return prompt;
+
+        const promotion = buildPromotion(source, selection, options);
+        // Write what was confirmed: refuse if the promoted keys moved on either
+        // side since the preview
+        if (state) {
+          const keys = [...new Set(promotion.entries.map((entry) => entry.key))];
+          await checkConfigConflict(sourceTransport, state.sourceCfgNum, keys);
+          await checkConfigConflict(transport, state.targetCfgNum, keys);
+        }
+        const updated = applyPromotion(await loadFullConfig(transport), promotion);
+        updated.cfgLog = args.log || `Promoted from ${args.source}`;
+        await transport.configRestore(JSON.stringify(updated));
+
+        const result: Record<string, any> = {
+          promoted: promotion.items,
+          from: args.source,
+          to: targetInstance,
+        };
+        if (promotion.excludedSecrets.length > 0) {
+          result.excludedSecrets = promotion.excludedSecrets;
+        }
+        if (Object.keys(promotion.regeneratedSecrets).length > 0) {
+          result.regeneratedSecrets = promotion.regeneratedSecrets;
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
 }
@@ -0,0 +1,39 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { TransportRegistry } from "../transport/registry.js";
+import { runDiagnostics } from "../diagnose.js";
+
+export function registerDiagnoseTools(server: McpServer, registry: TransportRegistry): void {
+  // llng_diagnose - Layer by layer health diagnostics
+  server.tool(
+    "llng_diagnose",
+    "Diagnose an instance layer by layer: config and session storage, portal reachability and TLS certificate, OIDC discovery and JWKS, SAML metadata, LDAP/SQL backends, config cache and clock skew. Each check returns ok/warn/error with a remediation hint.",
+    {
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const transport = registry.getTransport(args.instance);
+        const report = await runDiagnostics(transport);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+}
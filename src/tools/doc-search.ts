@@ -43,6 +43,44 @@ function loadIndex(): Chunk[] {
   );
 }
 
+export interface DocExcerpt {
+  file: string;
+  section: string;
+  excerpt: string;
+}
+
+// Characters kept around the first mention of a term
+const EXCERPT_BEFORE = 200;
+const EXCERPT_LENGTH = 800;
+
+/**
+ * Documentation chunks mentioning `term` as a whole word, most mentions
+ * first. Uses the index only (no Ollama); empty when no index is available.
+ */
+export function findDocExcerpts(term: string, limit = 3): DocExcerpt[] {
+  let index: Chunk[];
+  try {
+    index = loadIndex();
+  } catch {
+    return [];
+  }
+
+  const pattern = new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "g");
+  return index
+    .map((chunk) => ({ chunk, mentions: chunk.text.match(pattern)?.length ?? 0 }))
+    .filter(({ mentions }) => mentions > 0)
+    .sort((a, b) => b.mentions - a.mentions)
+    .slice(0, limit)
+    .map(({ chunk }) => {
+      const start = Math.max(0, chunk.text.search(pattern) - EXCERPT_BEFORE);
+      return {
+        file: chunk.file,
+        section: chunk.section,
+        excerpt: chunk.text.slice(start, start + EXCERPT_LENGTH).trim(),
+      };
+    });
+}
+
 function cosineSimilarity(a: number[], b: number[]): number {
   let dot = 0;
   let normA = 0;
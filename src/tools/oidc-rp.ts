@@ -1,14 +1,15 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { TransportRegistry } from "../transport/registry.js";
-
-const RP_CONFIG_KEYS = [
-  "oidcRPMetaDataOptions",
-  "oidcRPMetaDataExportedVars",
-  "oidcRPMetaDataMacros",
-  "oidcRPMetaDataScopeRules",
-  "oidcRPMetaDataOptionsExtraClaims",
-] as const;
+import {
+  RP_CONFIG_KEYS,
+  deepMerge,
+  formatDiffSummary,
+  isPlainObject,
+  loadFullConfig,
+  previewConfigChange,
+} from "../config-diff.js";
+import { CONFIRM_TOKEN_DESCRIPTION, requireConfirmation } from "../confirm.js";
 
 /**
  * Register OIDC Relying Party management tools
@@ -169,6 +170,12 @@ export function registerOidcRpTools(server: McpServer, registry: TransportRegist
         .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
         .optional()
         .describe("Additional raw OIDC RP options"),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe(
+          "Compute the resulting configuration and return a diff against the current one without writing anything",
+        ),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
@@ -235,6 +242,20 @@ export function registerOidcRpTools(server: McpServer, registry: TransportRegist
           };
         }
 
+        if (args.dryRun) {
+          const diff = await previewConfigChange(transport, (current) =>
+            deepMerge(current, mergeData),
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ dryRun: true, ...diff }, null, 2),
+              },
+            ],
+          };
+        }
+
         await transport.configMerge(JSON.stringify(mergeData));
 
         return {
@@ -265,14 +286,40 @@ export function registerOidcRpTools(server: McpServer, registry: TransportRegist
     "Delete an OIDC Relying Party by confKey",
     {
       confKey: z.string().describe("The RP configuration key to delete"),
+      confirmToken: z.string().optional().describe(CONFIRM_TOKEN_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
       try {
         const transport = registry.getTransport(args.instance, "manager");
+        const prompt = await requireConfirmation("llng_oidc_rp_delete", args, async () => {
+          const diff = await previewConfigChange(transport, (current) => {
+            for (const key of RP_CONFIG_KEYS) {
+              if (current[key]) delete current[key][args.confKey];
+            }
+            return current;
+          });
+          return {
+            summary: `will delete OIDC RP '${args.confKey}' (${formatDiffSummary(diff)})`,
+            details: diff,
+          };
+        });
+        if (prompt) return prompt;
 
+        // Rewrite the keys holding the RP in one write, so that the deletion
+        // is a single config revision
+        const current = await loadFullConfig(transport);
+        const pairs: Record<string, any> = {};
         for (const key of RP_CONFIG_KEYS) {
-          await transport.configDelKey(key, args.confKey);
+          if (isPlainObject(current[key]) && args.confKey in current[key]) {
+            pairs[key] = { ...current[key] };
+            delete pairs[key][args.confKey];
+          }
+        }
+        if (Object.keys(pairs).length > 0) {
+          await transport.configSet(pairs, `Deleted OIDC RP '${args.confKey}'`, {
+            expectedCfgNum: current.cfgNum,
+          });
         }
 
         return {
@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { TransportRegistry } from "../transport/registry.js";
+import { CONFIRM_TOKEN_DESCRIPTION, requireConfirmation } from "../confirm.js";
 
 export function registerSecondFactorTools(server: McpServer, registry: TransportRegistry): void {
   server.tool(
@@ -56,11 +57,20 @@ export function registerSecondFactorTools(server: McpServer, registry: Transport
     {
       user: z.string(),
       type: z.string(),
+      confirmToken: z.string().optional().describe(CONFIRM_TOKEN_DESCRIPTION),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (params) => {
       try {
         const transport = registry.getTransport(params.instance);
+        const prompt = await requireConfirmation("llng_2fa_delType", params, async () => {
+          const devices = await transport.secondFactorsGet(params.user);
+          const count = devices.filter((device) => device.type === params.type).length;
+          return {
+            summary: `will delete ${count} '${params.type}' 2FA device(s) of user '${params.user}'`,
+          };
+        });
+        if (prompt) return prompt;
         await transport.secondFactorsDelType(params.user, params.type);
         return {
           content: [
@@ -1,7 +1,112 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { SessionFilter, SessionGetOptions, SessionDeleteOptions } from "../transport/interface.js";
+import {
+  BulkSessionResult,
+  ILlngTransport,
+  SessionFilter,
+  SessionGetOptions,
+  SessionDeleteOptions,
+} from "../transport/interface.js";
 import { TransportRegistry } from "../transport/registry.js";
+import { CONFIRM_TOKEN_DESCRIPTION, confirmWithState, requireConfirmation } from "../confirm.js";
+import {
+  DEFAULT_SESSION_PAGE_SIZE,
+  SESSION_QUERY_OPERATORS,
+  querySessions,
+  sessionId,
+} from "../session-query.js";
+import { SESSION_TIME_BUCKETS, computeSessionStats, sessionStatsFields } from "../session-stats.js";
+
+const sessionCondition = z.object({
+  field: z.string().describe("Session field (e.g. uid, ipAddr, _utime, _lastSeen)"),
+  op: z
+    .enum(SESSION_QUERY_OPERATORS)
+    .describe(
+      "eq, ne, wildcard (* and ? patterns, e.g. 'dw*'), gt/gte/lt/lte (numbers or ISO dates " +
+        "compared to epoch seconds), cidr (e.g. '10.0.0.0/8')",
+    ),
+  value: z.union([z.string(), z.number()]),
+});
+
+// Parameters shared by the bulk session tools
+const bulkTargetSchema = {
+  ids: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Session IDs, also for persistent sessions (not user logins). Not allowed with where/kind",
+    ),
+  where: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe("Target the sessions matching these field=value pairs instead of a list of IDs"),
+  kind: z
+    .string()
+    .optional()
+    .describe("Filter by session kind: SSO, SAML, CAS, OIDC, Persistent (adds _session_kind)"),
+  backend: z.string().optional().describe("Backend type (persistent, oidc, saml, cas)"),
+  refreshTokens: z.boolean().optional().describe("Target refresh token (offline) sessions"),
+  persistent: z.boolean().optional().describe("Shortcut for backend persistent"),
+};
+
+interface BulkTarget {
+  ids?: string[];
+  where?: Record<string, string>;
+  kind?: string;
+  backend?: string;
+  refreshTokens?: boolean;
+  persistent?: boolean;
+}
+
+function bulkWhere(args: BulkTarget): Record<string, string> | undefined {
+  const where = { ...args.where };
+  if (args.kind) {
+    where._session_kind = args.kind;
+  }
+  if (Object.keys(where).length === 0) return undefined;
+  if (args.ids && args.ids.length > 0) {
+    throw new Error("Use either ids or where/kind, not both");
+  }
+  return where;
+}
+
+/**
+ * IDs targeted by a bulk tool: the given list, or the sessions matching where/kind.
+ */
+async function resolveBulkIds(transport: ILlngTransport, args: BulkTarget): Promise<string[]> {
+  const where = bulkWhere(args);
+  if (!where) {
+    if (!args.ids || args.ids.length === 0) {
+      throw new Error("Either ids or where/kind is required");
+    }
+    return args.ids;
+  }
+  const matching = await transport.sessionSearch({
+    where,
+    backend: args.backend,
+    refreshTokens: args.refreshTokens,
+    persistent: args.persistent,
+    idOnly: true,
+  });
+  return matching.map(sessionId);
+}
+
+function bulkReport(results: BulkSessionResult[]) {
+  const failed = results.filter((r) => r.status === "error").length;
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          { total: results.length, succeeded: results.length - failed, failed, results },
+          null,
+          2,
+        ),
+      },
+    ],
+    ...(failed > 0 ? { isError: true } : {}),
+  };
+}
 
 /**
  * Register LLNG session management tools
@@ -68,12 +173,30 @@ export function registerSessionTools(server: McpServer, registry: TransportRegis
   // 2. llng_session_search - Search LLNG sessions
   server.tool(
     "llng_session_search",
-    "Search LLNG sessions",
+    "Search LLNG sessions. Results are paginated: {total, offset, limit, sessions}",
     {
       where: z
         .record(z.string(), z.string())
         .optional()
         .describe("Field=value pairs for filtering"),
+      filters: z
+        .array(sessionCondition)
+        .optional()
+        .describe("Conditions that must all match (AND), combined with where"),
+      anyOf: z
+        .array(z.array(sessionCondition))
+        .optional()
+        .describe("OR groups: a session matches when all conditions of at least one group match"),
+      sortBy: z.string().optional().describe("Field to sort results by"),
+      sortOrder: z.enum(["asc", "desc"]).optional().describe("Sort order (default: asc)"),
+      offset: z.number().int().min(0).optional().describe("Number of sessions to skip"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(DEFAULT_SESSION_PAGE_SIZE)
+        .describe(`Maximum number of sessions to return (default: ${DEFAULT_SESSION_PAGE_SIZE})`),
       select: z.array(z.string()).optional().describe("Fields to return in results"),
       backend: z.string().optional().describe("Backend type (persistent, oidc, saml, cas)"),
       count: z.boolean().optional().describe("Return only the count of matching sessions"),
@@ -110,7 +233,15 @@ export function registerSessionTools(server: McpServer, registry: TransportRegis
           hash: args.hash,
           idOnly: args.idOnly,
         };
-        const result = await transport.sessionSearch(filters);
+        const result = await querySessions(transport, {
+          filter: filters,
+          conditions: args.filters,
+          anyOf: args.anyOf,
+          sortBy: args.sortBy,
+          sortOrder: args.sortOrder,
+          offset: args.offset,
+          limit: args.limit,
+        });
         return {
           content: [
             {
@@ -163,6 +294,10 @@ export function registerSessionTools(server: McpServer, registry: TransportRegis
           "Filter by session kind: SSO, SAML, CAS, OIDC, Persistent. " +
             "This is a shortcut that adds _session_kind to the where filter",
         ),
+      confirmToken: z
+        .string()
+        .optional()
+        .describe(`Only needed with where/kind. ${CONFIRM_TOKEN_DESCRIPTION}`),
       instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
     },
     async (args) => {
@@ -179,6 +314,25 @@ export function registerSessionTools(server: McpServer, registry: TransportRegis
           hash: args.hash,
           where: Object.keys(where).length > 0 ? where : undefined,
         };
+        if (options.where) {
+          const filter = options.where;
+          const prompt = await requireConfirmation("llng_session_delete", args, async () => {
+            const matching = await transport.sessionSearch({
+              where: filter,
+              backend: options.backend,
+              refreshTokens: options.refreshTokens,
+              persistent: options.persistent,
+              idOnly: true,
+            });
+            const conditions = Object.entries(filter)
+              .map(([field, value]) => `${field}=${value}`)
+              .join(", ");
+            return {
+              summary: `will delete ${matching.length.toLocaleString("en-US")} session(s) matching ${conditions}`,
+            };
+          });
+          if (prompt) return prompt;
+        }
         const ids = args.ids || [];
         await transport.sessionDelete(ids, options);
         const desc = options.where ? "matching sessions" : `${ids.length} session(s)`;
@@ -339,4 +493,175 @@ export function registerSessionTools(server: McpServer, registry: TransportRegis
       }
     },
   );
+
+  // 7. llng_session_stats - Aggregate session counts
+  server.tool(
+    "llng_session_stats",
+    "Count active LLNG sessions grouped by attribute and/or time bucket of _utime, with top-N values",
+    {
+      groupBy: z
+        .string()
+        .optional()
+        .describe(
+          "Session attribute to group by (e.g. _auth, _session_kind, authenticationLevel), " +
+            "or ipPrefix (IPv4 /24, IPv6 /64 of ipAddr) or userAgentFamily (from the UA attribute)",
+        ),
+      bucket: z
+        .enum(SESSION_TIME_BUCKETS)
+        .optional()
+        .describe("Group by session creation time (_utime) per minute, hour or day"),
+      top: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(10)
+        .describe("Number of most frequent values to return (default: 10)"),
+      where: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe("Field=value pairs for filtering"),
+      filters: z
+        .array(sessionCondition)
+        .optional()
+        .describe("Conditions that must all match, as in llng_session_search"),
+      backend: z.string().optional().describe("Backend type (persistent, oidc, saml, cas)"),
+      kind: z
+        .string()
+        .optional()
+        .describe("Filter by session kind: SSO, SAML, CAS, OIDC, Persistent"),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        if (!args.groupBy && !args.bucket) {
+          throw new Error("At least one of groupBy or bucket is required");
+        }
+        const transport = registry.getTransport(args.instance);
+        const where = { ...args.where };
+        if (args.kind) {
+          where._session_kind = args.kind;
+        }
+        const page = await querySessions(transport, {
+          filter: {
+            where: Object.keys(where).length > 0 ? where : undefined,
+            select: sessionStatsFields(args),
+            backend: args.backend,
+          },
+          conditions: args.filters,
+          limit: Infinity,
+        });
+        const result = computeSessionStats(page.sessions, args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // 8. llng_session_bulk_delete - Delete many sessions with a per-ID report
+  server.tool(
+    "llng_session_bulk_delete",
+    "Delete many LLNG sessions in one server-side operation (by IDs or filter). Reports success or failure per session ID; a failure does not stop the others.",
+    {
+      ...bulkTargetSchema,
+      confirmToken: z
+        .string()
+        .optional()
+        .describe(`Only needed with where/kind. ${CONFIRM_TOKEN_DESCRIPTION}`),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const transport = registry.getTransport(args.instance);
+        const where = bulkWhere(args);
+        let ids: string[];
+        if (where) {
+          // Delete the sessions counted in the summary, not a new search result
+          const { prompt, state } = await confirmWithState(
+            "llng_session_bulk_delete",
+            args,
+            async () => {
+              const matching = await resolveBulkIds(transport, args);
+              const conditions = Object.entries(where)
+                .map(([field, value]) => `${field}=${value}`)
+                .join(", ");
+              return {
+                summary: `will delete ${matching.length.toLocaleString("en-US")} session(s) matching ${conditions}`,
+                state: { ids: matching },
+              };
+            },
+          );
+          if (prompt) return prompt;
+          ids = state?.ids ?? [];
+        } else {
+          ids = await resolveBulkIds(transport, args);
+        }
+        const results = await transport.sessionBulkDelete(ids, {
+          backend: args.backend,
+          refreshTokens: args.refreshTokens,
+          persistent: args.persistent,
+        });
+        return bulkReport(results);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // 9. llng_session_bulk_setKey - Set keys in many sessions with a per-ID report
+  server.tool(
+    "llng_session_bulk_setKey",
+    "Set key(s) in many LLNG sessions in one server-side operation (by IDs or filter). Reports success or failure per session ID.",
+    {
+      ...bulkTargetSchema,
+      keys: z.record(z.string(), z.any()).describe("Key-value pairs to set in every session"),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const transport = registry.getTransport(args.instance);
+        const ids = await resolveBulkIds(transport, args);
+        const results = await transport.sessionBulkSetKey(ids, args.keys, {
+          backend: args.backend,
+          refreshTokens: args.refreshTokens,
+          persistent: args.persistent,
+        });
+        return bulkReport(results);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
 }
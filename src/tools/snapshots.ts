@@ -0,0 +1,141 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { TransportRegistry } from "../transport/registry.js";
+import { diffConfig, formatDiffSummary, loadFullConfig } from "../config-diff.js";
+import { CONFIRM_TOKEN_DESCRIPTION, requireConfirmation } from "../confirm.js";
+import { SnapshotStore } from "../snapshots.js";
+
+export function registerSnapshotTools(
+  server: McpServer,
+  registry: TransportRegistry,
+  store: SnapshotStore,
+): void {
+  // 1. llng_snapshot_list - List local config snapshots
+  server.tool(
+    "llng_snapshot_list",
+    "List local configuration snapshots taken before config changes, newest first",
+    {
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const result = store.list(args.instance || registry.getDefaultInstance());
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // 2. llng_snapshot_diff - Diff a snapshot against another one or the live config
+  server.tool(
+    "llng_snapshot_diff",
+    "Show the differences between a local config snapshot and another snapshot or the live configuration",
+    {
+      cfgNum: z.number().int().positive().describe("Configuration number of the snapshot"),
+      to: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Snapshot to compare with (defaults to the live configuration)"),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const instance = args.instance || registry.getDefaultInstance();
+        const before = JSON.parse(store.load(instance, args.cfgNum));
+        const after =
+          args.to !== undefined
+            ? JSON.parse(store.load(instance, args.to))
+            : await loadFullConfig(registry.getTransport(args.instance, "manager"));
+        const result = {
+          from: before.cfgNum,
+          to: after.cfgNum,
+          ...diffConfig(before, after),
+        };
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // 3. llng_snapshot_restore - Save a snapshot as the new configuration
+  server.tool(
+    "llng_snapshot_restore",
+    "Restore a local config snapshot as a new configuration revision",
+    {
+      cfgNum: z.number().int().positive().describe("Configuration number of the snapshot"),
+      confirmToken: z.string().optional().describe(CONFIRM_TOKEN_DESCRIPTION),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const instance = args.instance || registry.getDefaultInstance();
+        const transport = registry.getTransport(args.instance, "manager");
+        const snapshot = JSON.parse(store.load(instance, args.cfgNum));
+        const prompt = await requireConfirmation("llng_snapshot_restore", args, async () => {
+          const current = await loadFullConfig(transport);
+          const diff = diffConfig(current, snapshot);
+          return {
+            summary: `will restore snapshot ${args.cfgNum} over configuration ${current.cfgNum} (${formatDiffSummary(diff)})`,
+            details: diff,
+          };
+        });
+        if (prompt) return prompt;
+
+        snapshot.cfgLog = `Restored from local snapshot ${args.cfgNum}`;
+        await transport.configRestore(JSON.stringify(snapshot));
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Snapshot ${args.cfgNum} restored successfully`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+}
@@ -0,0 +1,264 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ILlngTransport, SessionNotFoundError } from "../transport/interface.js";
+import { TransportRegistry } from "../transport/registry.js";
+import { sessionId } from "../session-query.js";
+
+interface OffboardStep {
+  step: string;
+  status: "done" | "planned" | "nothing" | "error";
+  count?: number;
+  error?: string;
+}
+
+/**
+ * The user's persistent session, or undefined when there is none. Lookup
+ * failures are thrown: they do not tell whether the session exists.
+ */
+async function persistentSession(
+  transport: ILlngTransport,
+  uid: string,
+): Promise<Record<string, any> | undefined> {
+  try {
+    const session = await transport.sessionGet(uid, { persistent: true });
+    return session && Object.keys(session).length > 0 ? session : undefined;
+  } catch (e: unknown) {
+    if (e instanceof SessionNotFoundError) return undefined;
+    throw e;
+  }
+}
+
+/**
+ * Run one offboarding step: `find` returns what would be deleted, `remove`
+ * deletes it. Errors are reported in the step instead of aborting the run.
+ */
+async function runStep<T>(
+  step: string,
+  dryRun: boolean | undefined,
+  find: () => Promise<T[]>,
+  remove: (items: T[]) => Promise<void>,
+): Promise<OffboardStep> {
+  try {
+    const items = await find();
+    if (items.length === 0) return { step, status: "nothing", count: 0 };
+    if (dryRun) return { step, status: "planned", count: items.length };
+    await remove(items);
+    return { step, status: "done", count: items.length };
+  } catch (e: unknown) {
+    return { step, status: "error", error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+async function offboardUser(
+  transport: ILlngTransport,
+  uid: string,
+  dryRun?: boolean,
+): Promise<OffboardStep[]> {
+  const steps: OffboardStep[] = [];
+
+  steps.push(
+    await runStep(
+      "sso_sessions",
+      dryRun,
+      async () => (await transport.sessionSearch({ where: { uid }, idOnly: true })).map(sessionId),
+      (ids) => transport.sessionDelete(ids),
+    ),
+  );
+
+  steps.push(
+    await runStep(
+      "refresh_tokens",
+      dryRun,
+      async () =>
+        (await transport.sessionSearch({ where: { uid }, refreshTokens: true, idOnly: true })).map(
+          sessionId,
+        ),
+      (ids) => transport.sessionDelete(ids, { refreshTokens: true }),
+    ),
+  );
+
+  // 2FA devices and consents live in the persistent session: remove them first
+  // so that each step is reported on its own
+  steps.push(
+    await runStep(
+      "second_factors",
+      dryRun,
+      () => transport.secondFactorsGet(uid),
+      async (devices) => {
+        const types = [...new Set(devices.map((device) => device.type))];
+        for (const type of types) {
+          await transport.secondFactorsDelType(uid, type);
+        }
+      },
+    ),
+  );
+
+  steps.push(
+    await runStep(
+      "consents",
+      dryRun,
+      () => transport.consentsGet(uid),
+      (consents) =>
+        transport.consentsDelete(
+          uid,
+          consents.map((consent) => consent.id),
+        ),
+    ),
+  );
+
+  steps.push(
+    await runStep(
+      "persistent_session",
+      dryRun,
+      async () => ((await persistentSession(transport, uid)) ? [uid] : []),
+      (ids) => transport.sessionDelete(ids, { persistent: true }),
+    ),
+  );
+
+  return steps;
+}
+
+// Attributes shown for each active session
+const PROFILE_SESSION_FIELDS = [
+  "_session_id",
+  "_session_kind",
+  "ipAddr",
+  "_utime",
+  "_lastSeen",
+  "authenticationLevel",
+  "_auth",
+];
+
+// Persistent session attributes already shown in their own section
+const PROFILE_PERSISTENT_SKIP = ["_2fDevices", "_oidcConsents"];
+
+function parseOutput(output: string): unknown {
+  try {
+    return JSON.parse(output);
+  } catch {
+    return output.trim();
+  }
+}
+
+/**
+ * Gather everything known about a user. Each section is fetched on its own:
+ * a failure (e.g. 2FA in a mode that does not support it) is reported in
+ * `errors` and does not hide the other sections.
+ */
+async function userProfile(transport: ILlngTransport, uid: string): Promise<Record<string, any>> {
+  const profile: Record<string, any> = { uid };
+  const errors: Record<string, string> = {};
+
+  const section = async (name: string, fetch: () => Promise<unknown>) => {
+    try {
+      profile[name] = await fetch();
+    } catch (e: unknown) {
+      errors[name] = e instanceof Error ? e.message : String(e);
+    }
+  };
+
+  await section("attributes", async () =>
+    parseOutput(await transport.execScript("llngUserAttributes", ["--username", uid])),
+  );
+  await section("sessions", () =>
+    transport.sessionSearch({ where: { uid }, select: PROFILE_SESSION_FIELDS }),
+  );
+  await section("persistentSession", async () => {
+    const session = await persistentSession(transport, uid);
+    if (!session) return null;
+    return Object.fromEntries(
+      Object.entries(session).filter(([key]) => !PROFILE_PERSISTENT_SKIP.includes(key)),
+    );
+  });
+  await section("secondFactors", () => transport.secondFactorsGet(uid));
+  await section("consents", () => transport.consentsGet(uid));
+  await section("refreshTokens", () =>
+    transport.sessionSearch({
+      where: { uid },
+      refreshTokens: true,
+      select: PROFILE_SESSION_FIELDS,
+    }),
+  );
+
+  if (Object.keys(errors).length > 0) profile.errors = errors;
+  return profile;
+}
+
+/**
+ * Register user-centric tools
+ */
+export function registerUserTools(server: McpServer, registry: TransportRegistry): void {
+  // 1. llng_user_offboard - Remove every trace of a user's access
+  server.tool(
+    "llng_user_offboard",
+    "Offboard a user: delete SSO sessions, OIDC refresh tokens, 2FA devices, consents and the persistent session, with a per-step report",
+    {
+      uid: z.string().describe("User identifier"),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe("Only report what would be deleted at each step, without deleting anything"),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const transport = registry.getTransport(args.instance);
+        const steps = await offboardUser(transport, args.uid, args.dryRun);
+        const result = { uid: args.uid, dryRun: !!args.dryRun, steps };
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          ...(steps.some((s) => s.status === "error") ? { isError: true } : {}),
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // 2. llng_user_profile - Consolidated view of a user
+  server.tool(
+    "llng_user_profile",
+    "Show everything about a user in one call: directory attributes, active sessions, persistent session, 2FA devices, consents and refresh tokens",
+    {
+      uid: z.string().describe("User identifier"),
+      instance: z.string().optional().describe("LLNG instance name (uses default if omitted)"),
+    },
+    async (args) => {
+      try {
+        const transport = registry.getTransport(args.instance);
+        const profile = await userProfile(transport, args.uid);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(profile, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+}
@@ -1,22 +1,61 @@
 import {
   ILlngTransport,
   ConfigInfo,
+  ConfigWriteOptions,
+  ConfigConflictError,
   SessionFilter,
   SessionGetOptions,
   SessionDeleteOptions,
   HealthCheckResult,
   FlushCacheResult,
+  HostDiagnostics,
+  BulkSessionResult,
+  SessionNotFoundError,
+  TransientTransportError,
 } from "./interface.js";
-import { ApiConfig } from "../config.js";
+import { ApiConfig, RequestConfig } from "../config.js";
 import https from "https";
+import { changedKeys, deepMerge } from "../config-diff.js";
+import { ConcurrencyLimiter } from "./limiter.js";
+import { abortError, callSignal, withRetries } from "./request-control.js";
+
+// Attempts for a guarded read-modify-write when the config moves under us
+const MAX_CONFIG_WRITE_ATTEMPTS = 3;
+// Parallel requests for bulk session operations
+const BULK_CONCURRENCY = 8;
+
+// Statuses of an overloaded or unreachable backend, worth a retry for reads
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+// Consecutive missing revisions after which older ones are assumed pruned
+const MAX_MISSING_REVISIONS = 20;
+
+// Response headers that may carry the LemonLDAP::NG version
+const VERSION_HEADERS = ["x-llng-version", "x-lemonldap-ng-version", "server"];
+const VERSION_PATTERN = /(?:^|lemonldap(?:-|::)?ng[/ ]v?)(\d+\.\d+(?:\.\d+)?)/i;
+
+/**
+ * Error response of the API that is not worth a retry.
+ */
+class ApiHttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "ApiHttpError";
+  }
+}
 
 export class ApiTransport implements ILlngTransport {
   private baseUrl: string;
   private basicAuth?: { username: string; password: string };
   private verifySsl: boolean;
   private agent?: https.Agent;
+  private requestConfig: RequestConfig;
 
   constructor(config: ApiConfig) {
+    const { timeoutMs, retries, retryDelayMs } = config;
+    this.requestConfig = { timeoutMs, retries, retryDelayMs };
     // Strip trailing slash
     this.baseUrl = config.baseUrl.replace(/\/$/, "");
     this.basicAuth = config.basicAuth;
@@ -33,14 +72,18 @@ export class ApiTransport implements ILlngTransport {
     }
   }
 
-  private async request(method: string, path: string, body?: any): Promise<any> {
-    const url = `${this.baseUrl}${path}`;
+  /**
+   * Send a request and return the raw response. `url` is either a path under
+   * baseUrl or an absolute URL (reload endpoints, which get no credentials).
+   */
+  private async send(method: string, url: string, body?: any): Promise<Response> {
+    const absolute = /^https?:\/\//.test(url);
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
     };
 
     // Add Basic Auth if configured
-    if (this.basicAuth) {
+    if (this.basicAuth && !absolute) {
       const credentials = Buffer.from(
         `${this.basicAuth.username}:${this.basicAuth.password}`,
       ).toString("base64");
@@ -58,28 +101,56 @@ export class ApiTransport implements ILlngTransport {
       options.body = JSON.stringify(body);
     }
 
-    try {
-      const response = await fetch(url, options);
+    const attempt = async (): Promise<Response> => {
+      const signal = callSignal(this.requestConfig);
+      let response: Response;
+      try {
+        response = await fetch(absolute ? url : `${this.baseUrl}${url}`, { ...options, signal });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw abortError(signal, `${method} ${url}`, this.requestConfig);
+        }
+        // Network-level failure: DNS, refused or reset connection
+        throw new TransientTransportError(
+          `API request failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        const message = `API request failed: HTTP ${response.status} ${response.statusText}`;
+        throw RETRYABLE_STATUSES.includes(response.status)
+          ? new TransientTransportError(message)
+          : new ApiHttpError(message, response.status);
       }
+      return response;
+    };
 
-      // Handle empty responses
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("application/json")) {
-        return await response.json();
-      } else {
-        const text = await response.text();
-        if (!text) {
-          return {};
-        }
-        try {
-          return JSON.parse(text);
-        } catch {
-          return text;
-        }
+    // GET requests are idempotent reads and may be retried
+    return method === "GET" ? withRetries(this.requestConfig, attempt) : attempt();
+  }
+
+  private async parseBody(response: Response): Promise<any> {
+    // Handle empty responses
+    const contentType = response.headers.get("content-type");
+    if (contentType && contentType.includes("application/json")) {
+      return await response.json();
+    } else {
+      const text = await response.text();
+      if (!text) {
+        return {};
+      }
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
       }
+    }
+  }
+
+  private async request(method: string, path: string, body?: any): Promise<any> {
+    const response = await this.send(method, path, body);
+    try {
+      return await this.parseBody(response);
     } catch (error) {
       if (error instanceof Error) {
         throw new Error(`API request failed: ${error.message}`);
@@ -111,53 +182,110 @@ export class ApiTransport implements ILlngTransport {
     return result;
   }
 
-  async configSet(pairs: Record<string, any>, log?: string): Promise<void> {
-    // Get current config
-    const currentConfig = await this.request("GET", "/api/v1/config/latest");
+  /**
+   * Read the latest config, apply `mutate` and PUT the result.
+   * With `expectedCfgNum`, the write is rejected if any of `keys` changed since
+   * that revision; changes to other keys are rebased on and the write retried.
+   * `mutate` may return false to skip the write.
+   */
+  private async updateConfig(
+    keys: string[],
+    mutate: (config: Record<string, any>) => boolean | void,
+    options?: ConfigWriteOptions,
+  ): Promise<void> {
+    const expected = options?.expectedCfgNum;
 
-    // Merge changes
-    const updatedConfig = { ...currentConfig, ...pairs };
+    for (let attempt = 1; ; attempt++) {
+      const config = await this.request("GET", "/api/v1/config/latest");
 
-    // Add log if provided
-    if (log) {
-      updatedConfig.cfgLog = log;
-    }
+      if (expected !== undefined && config.cfgNum !== expected) {
+        let base: Record<string, any>;
+        try {
+          base = await this.request("GET", `/api/v1/config/${expected}`);
+        } catch {
+          throw new ConfigConflictError(expected, config.cfgNum, keys);
+        }
+        const conflicting = changedKeys(base, config, keys);
+        if (conflicting.length > 0) {
+          throw new ConfigConflictError(expected, config.cfgNum, conflicting);
+        }
+      }
 
-    // Save config
-    await this.request("PUT", "/api/v1/config", updatedConfig);
-  }
+      if (mutate(config) === false) {
+        return;
+      }
 
-  async configAddKey(key: string, subkey: string, value: string): Promise<void> {
-    // Get current config
-    const config = await this.request("GET", "/api/v1/config/latest");
+      if (expected !== undefined) {
+        // Narrow the race window: make sure nobody saved since we read
+        const latest = await this.configInfo();
+        if (latest.cfgNum !== config.cfgNum) {
+          if (attempt < MAX_CONFIG_WRITE_ATTEMPTS) continue;
+          throw new ConfigConflictError(expected, latest.cfgNum, keys);
+        }
+      }
 
-    // Initialize the key if it doesn't exist
-    if (!config[key]) {
-      config[key] = {};
+      await this.request("PUT", "/api/v1/config", config);
+      return;
     }
+  }
 
-    // Add the subkey
-    config[key][subkey] = value;
-
-    // Save config
-    await this.request("PUT", "/api/v1/config", config);
+  async configSet(
+    pairs: Record<string, any>,
+    log?: string,
+    options?: ConfigWriteOptions,
+  ): Promise<void> {
+    await this.updateConfig(
+      Object.keys(pairs),
+      (config) => {
+        // Merge changes
+        Object.assign(config, pairs);
+
+        // Add log if provided
+        if (log) {
+          config.cfgLog = log;
+        }
+      },
+      options,
+    );
   }
 
-  async configDelKey(key: string, subkey: string): Promise<void> {
-    // Get current config
-    const config = await this.request("GET", "/api/v1/config/latest");
+  async configAddKey(
+    key: string,
+    subkey: string,
+    value: string,
+    options?: ConfigWriteOptions,
+  ): Promise<void> {
+    await this.updateConfig(
+      [key],
+      (config) => {
+        // Initialize the key if it doesn't exist
+        if (!config[key]) {
+          config[key] = {};
+        }
 
-    // Remove the subkey if it exists
-    if (config[key] && subkey in config[key]) {
-      delete config[key][subkey];
+        // Add the subkey
+        config[key][subkey] = value;
+      },
+      options,
+    );
+  }
 
-      // Save config
-      await this.request("PUT", "/api/v1/config", config);
-    }
+  async configDelKey(key: string, subkey: string, options?: ConfigWriteOptions): Promise<void> {
+    await this.updateConfig(
+      [key],
+      (config) => {
+        // Nothing to save if the subkey does not exist
+        if (!config[key] || !(subkey in config[key])) {
+          return false;
+        }
+        delete config[key][subkey];
+      },
+      options,
+    );
   }
 
-  async configSave(): Promise<string> {
-    const config = await this.request("GET", "/api/v1/config/latest");
+  async configSave(cfgNum?: number): Promise<string> {
+    const config = await this.request("GET", `/api/v1/config/${cfgNum ?? "latest"}`);
     return JSON.stringify(config, null, 2);
   }
 
@@ -166,37 +294,38 @@ export class ApiTransport implements ILlngTransport {
     await this.request("PUT", "/api/v1/config", config);
   }
 
-  async configMerge(json: string): Promise<void> {
+  async configMerge(json: string, options?: ConfigWriteOptions): Promise<void> {
     const snippet = JSON.parse(json);
-    const currentConfig = await this.request("GET", "/api/v1/config/latest");
-
-    // Deep merge
-    const merged = this.deepMerge(currentConfig, snippet);
-
-    await this.request("PUT", "/api/v1/config", merged);
-  }
 
-  private deepMerge(target: any, source: any): any {
-    const result = { ...target };
-
-    for (const key in source) {
-      if (key === "__proto__" || key === "constructor" || key === "prototype") continue;
-      const value = source[key];
-      if (value !== null && value instanceof Object && !Array.isArray(value)) {
-        result[key] = this.deepMerge(result[key] || {}, value);
-      } else {
-        result[key] = value;
-      }
-    }
-
-    return result;
+    await this.updateConfig(
+      Object.keys(snippet),
+      (config) => {
+        // Deep merge
+        Object.assign(config, deepMerge(config, snippet));
+      },
+      options,
+    );
   }
 
-  async configRollback(): Promise<void> {
+  async configRollback(cfgNum?: number): Promise<void> {
     // Get current config to find cfgNum
     const current = await this.request("GET", "/api/v1/config/latest");
     const currentNum = current.cfgNum;
 
+    if (cfgNum !== undefined) {
+      if (cfgNum >= currentNum) {
+        throw new Error(
+          `Cannot rollback: target config ${cfgNum} is not older than current config ${currentNum}`,
+        );
+      }
+
+      // Restore the requested revision as a new config, recording where it came from
+      const target = await this.request("GET", `/api/v1/config/${cfgNum}`);
+      target.cfgLog = `Rollback to config ${cfgNum} (from ${currentNum})`;
+      await this.request("PUT", "/api/v1/config", target);
+      return;
+    }
+
     if (currentNum <= 1) {
       throw new Error("Cannot rollback: already at first config");
     }
@@ -208,11 +337,46 @@ export class ApiTransport implements ILlngTransport {
     await this.request("PUT", "/api/v1/config", previous);
   }
 
+  async configHistory(limit = 10): Promise<ConfigInfo[]> {
+    const latest = await this.configInfo();
+    const history: ConfigInfo[] = [];
+
+    // No listing endpoint: walk back from the latest revision, skipping pruned
+    // ones, until a long run of missing revisions shows nothing older is kept
+    let missing = 0;
+    for (
+      let num = latest.cfgNum;
+      num >= 1 && history.length < limit && missing < MAX_MISSING_REVISIONS;
+      num--
+    ) {
+      let data: any;
+      try {
+        data = await this.request("GET", `/api/v1/config/${num}`);
+      } catch (e) {
+        if (e instanceof ApiHttpError && e.status === 404) {
+          missing++;
+          continue;
+        }
+        throw e;
+      }
+      missing = 0;
+      history.push({
+        cfgNum: data.cfgNum,
+        cfgAuthor: data.cfgAuthor,
+        cfgDate: data.cfgDate,
+        cfgLog: data.cfgLog,
+      });
+    }
+
+    return history;
+  }
+
   async configUpdateCache(): Promise<void> {
     // No-op for API mode - cache is managed server-side
   }
 
   async configTestEmail(_destination: string): Promise<void> {
+    // The manager's test mail route needs a manager session, not the REST API credentials
     throw new Error("configTestEmail is not supported via API. Use SSH or K8s mode.");
   }
 
@@ -225,10 +389,17 @@ export class ApiTransport implements ILlngTransport {
   async sessionGet(id: string, options?: SessionGetOptions): Promise<Record<string, any>> {
     const backendName = this.resolveBackend(options);
     // hash option is not supported via API
-    return await this.request(
-      "GET",
-      `/api/v1/sessions/${encodeURIComponent(backendName)}/${encodeURIComponent(id)}`,
-    );
+    try {
+      return await this.request(
+        "GET",
+        `/api/v1/sessions/${encodeURIComponent(backendName)}/${encodeURIComponent(id)}`,
+      );
+    } catch (e) {
+      if (e instanceof ApiHttpError && e.status === 404) {
+        throw new SessionNotFoundError(id);
+      }
+      throw e;
+    }
   }
 
   async sessionSearch(filters: SessionFilter): Promise<any[]> {
@@ -344,6 +515,44 @@ export class ApiTransport implements ILlngTransport {
     );
   }
 
+  /**
+   * Apply `operation` to every ID with bounded concurrency, reporting each
+   * failure instead of stopping at the first one.
+   */
+  private async bulkSessions(
+    ids: string[],
+    operation: (id: string) => Promise<void>,
+  ): Promise<BulkSessionResult[]> {
+    const limiter = new ConcurrencyLimiter(BULK_CONCURRENCY);
+    return Promise.all(
+      ids.map((id) =>
+        limiter.run(async (): Promise<BulkSessionResult> => {
+          try {
+            await operation(id);
+            return { id, status: "ok" };
+          } catch (e) {
+            return { id, status: "error", error: e instanceof Error ? e.message : String(e) };
+          }
+        }),
+      ),
+    );
+  }
+
+  async sessionBulkDelete(
+    ids: string[],
+    options?: SessionGetOptions,
+  ): Promise<BulkSessionResult[]> {
+    return this.bulkSessions(ids, (id) => this.sessionDelete([id], options));
+  }
+
+  async sessionBulkSetKey(
+    ids: string[],
+    pairs: Record<string, any>,
+    options?: SessionGetOptions,
+  ): Promise<BulkSessionResult[]> {
+    return this.bulkSessions(ids, (id) => this.sessionSetKey(id, pairs, options));
+  }
+
   async sessionBackup(
     backend?: string,
     refreshTokens?: boolean,
@@ -430,7 +639,18 @@ export class ApiTransport implements ILlngTransport {
   }
 
   async getVersion(): Promise<string> {
-    throw new Error("getVersion is not supported via API. Use SSH or K8s mode.");
+    const response = await this.send("GET", "/api/v1/");
+    const body = await this.parseBody(response).catch(() => undefined);
+    if (body && typeof body === "object" && typeof body.version === "string") {
+      return body.version;
+    }
+
+    for (const header of VERSION_HEADERS) {
+      const match = response.headers.get(header)?.match(VERSION_PATTERN);
+      if (match) return match[1];
+    }
+
+    throw new Error("Could not determine the LemonLDAP::NG version from the API response");
   }
 
   async healthCheck(): Promise<HealthCheckResult> {
@@ -458,7 +678,7 @@ export class ApiTransport implements ILlngTransport {
       result.sessionRead = { status: "error", error: e instanceof Error ? e.message : String(e) };
     }
 
-    // 3. Session write not testable via API
+    // 3. The REST API has no endpoint to create a session: write is not testable
     result.sessionWrite = {
       status: "error",
       error: "Session write test is not supported via API. Use SSH or K8s mode.",
@@ -467,7 +687,53 @@ export class ApiTransport implements ILlngTransport {
     return result;
   }
 
-  async flushCache(_target: "config" | "sessions" | "all"): Promise<FlushCacheResult> {
-    throw new Error("flushCache is not supported via API. Use SSH or K8s mode.");
+  async flushCache(target: "config" | "sessions" | "all"): Promise<FlushCacheResult> {
+    const result: FlushCacheResult = {};
+
+    if (target === "config" || target === "all") {
+      // Call the reload URLs the manager itself notifies after a config save
+      try {
+        const { reloadUrls } = await this.configGet(["reloadUrls"]);
+        const urls = Object.values(reloadUrls ?? {}).map(String);
+        if (urls.length === 0) {
+          result.config = { status: "skipped", reason: "No reloadUrls configured" };
+        } else {
+          const errors: string[] = [];
+          for (const url of urls) {
+            try {
+              await this.send("GET", url);
+            } catch (e) {
+              errors.push(`${url}: ${e instanceof Error ? e.message : String(e)}`);
+            }
+          }
+          result.config =
+            errors.length > 0 ? { status: "error", error: errors.join("; ") } : { status: "ok" };
+        }
+      } catch (e) {
+        result.config = { status: "error", error: e instanceof Error ? e.message : String(e) };
+      }
+    }
+
+    if (target === "sessions" || target === "all") {
+      result.sessions = {
+        status: "skipped",
+        reason: "Local session caches cannot be cleared through the REST API",
+      };
+    }
+
+    return result;
+  }
+
+  async diagnoseHost(): Promise<HostDiagnostics> {
+    throw new Error("diagnoseHost is not supported via API. Use SSH or K8s mode.");
+  }
+
+  async listNodes(): Promise<string[]> {
+    // The REST API is a single endpoint
+    return [this.baseUrl];
+  }
+
+  forNode(_node: string): ILlngTransport {
+    return this;
   }
 }
@@ -20,6 +20,78 @@ export interface SessionFilter {
   idOnly?: boolean; // return only session IDs
 }
 
+export interface BulkSessionResult {
+  id: string;
+  status: "ok" | "error";
+  error?: string;
+}
+
+export interface ConfigWriteOptions {
+  expectedCfgNum?: number; // reject the write if the config changed since this revision
+}
+
+/**
+ * Raised when a config write is rejected because the configuration changed
+ * since the caller read it and the change touches the same keys.
+ */
+export class ConfigConflictError extends Error {
+  constructor(
+    public expectedCfgNum: number,
+    public currentCfgNum: number,
+    public keys: string[],
+  ) {
+    super(
+      `Config conflict: expected cfgNum ${expectedCfgNum} but latest is ${currentCfgNum}` +
+        (keys.length > 0 ? ` and these keys changed meanwhile: ${keys.join(", ")}` : "") +
+        ". Re-read the configuration and retry.",
+    );
+    this.name = "ConfigConflictError";
+  }
+}
+
+/**
+ * Raised when the requested session does not exist, as opposed to a
+ * failure to look it up.
+ */
+export class SessionNotFoundError extends Error {
+  constructor(public id: string) {
+    super(`Session not found: ${id}`);
+    this.name = "SessionNotFoundError";
+  }
+}
+
+/**
+ * A failure that may go away on retry: lost connection, unreachable server,
+ * gateway error or timeout. Only these are retried, and only for reads.
+ */
+export class TransientTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransientTransportError";
+  }
+}
+
+export class TransportTimeoutError extends TransientTransportError {
+  constructor(
+    public operation: string,
+    public timeoutMs: number,
+  ) {
+    super(`${operation} timed out after ${timeoutMs} ms`);
+    this.name = "TransportTimeoutError";
+  }
+}
+
+/**
+ * Raised when the MCP client cancels the tool call while a command or
+ * request is running.
+ */
+export class TransportCancelledError extends Error {
+  constructor(operation: string) {
+    super(`${operation} cancelled by the client`);
+    this.name = "TransportCancelledError";
+  }
+}
+
 export interface ConfigInfo {
   cfgNum: number;
   cfgAuthor: string;
@@ -30,13 +102,19 @@ export interface ConfigInfo {
 export interface ILlngTransport {
   configInfo(): Promise<ConfigInfo>;
   configGet(keys: string[]): Promise<Record<string, any>>;
-  configSet(pairs: Record<string, any>, log?: string): Promise<void>;
-  configAddKey(key: string, subkey: string, value: string): Promise<void>;
-  configDelKey(key: string, subkey: string): Promise<void>;
-  configSave(): Promise<string>;
+  configSet(pairs: Record<string, any>, log?: string, options?: ConfigWriteOptions): Promise<void>;
+  configAddKey(
+    key: string,
+    subkey: string,
+    value: string,
+    options?: ConfigWriteOptions,
+  ): Promise<void>;
+  configDelKey(key: string, subkey: string, options?: ConfigWriteOptions): Promise<void>;
+  configSave(cfgNum?: number): Promise<string>;
   configRestore(json: string): Promise<void>;
-  configMerge(json: string): Promise<void>;
-  configRollback(): Promise<void>;
+  configMerge(json: string, options?: ConfigWriteOptions): Promise<void>;
+  configRollback(cfgNum?: number): Promise<void>;
+  configHistory(limit?: number): Promise<ConfigInfo[]>;
   configUpdateCache(): Promise<void>;
   configTestEmail(destination: string): Promise<void>;
 
@@ -46,6 +124,12 @@ export interface ILlngTransport {
   sessionSetKey(id: string, pairs: Record<string, any>, options?: SessionGetOptions): Promise<void>;
   sessionDelKey(id: string, keys: string[], options?: SessionGetOptions): Promise<void>;
   sessionBackup(backend?: string, refreshTokens?: boolean, persistent?: boolean): Promise<string>;
+  sessionBulkDelete(ids: string[], options?: SessionGetOptions): Promise<BulkSessionResult[]>;
+  sessionBulkSetKey(
+    ids: string[],
+    pairs: Record<string, any>,
+    options?: SessionGetOptions,
+  ): Promise<BulkSessionResult[]>;
 
   secondFactorsGet(user: string): Promise<any[]>;
   secondFactorsDelete(user: string, ids: string[]): Promise<void>;
@@ -61,6 +145,12 @@ export interface ILlngTransport {
   healthCheck(): Promise<HealthCheckResult>;
 
   flushCache(target: "config" | "sessions" | "all"): Promise<FlushCacheResult>;
+
+  diagnoseHost(): Promise<HostDiagnostics>;
+
+  // Nodes (SSH hosts, pods) serving the instance, and a transport bound to one of them
+  listNodes(): Promise<string[]>;
+  forNode(node: string): ILlngTransport;
 }
 
 export interface HealthCheckStatus {
@@ -96,3 +186,19 @@ export interface FlushCacheResult {
   config?: FlushCacheStatus;
   sessions?: FlushCacheStatus;
 }
+
+export interface HostCheckStatus {
+  status: "ok" | "error" | "skipped";
+  error?: string;
+  reason?: string;
+}
+
+/**
+ * Checks run on the LLNG host itself (see HOST_DIAGNOSTICS_SCRIPT).
+ */
+export interface HostDiagnostics {
+  time: number; // host clock, epoch seconds
+  configCache: HostCheckStatus & { db?: number; cache?: number | null };
+  ldap?: HostCheckStatus & { server?: string };
+  sql?: HostCheckStatus;
+}
@@ -4,12 +4,56 @@ import {
   ILlngTransport,
   SessionFilter,
   ConfigInfo,
+  ConfigWriteOptions,
   SessionGetOptions,
   SessionDeleteOptions,
   HealthCheckResult,
   FlushCacheResult,
+  HostDiagnostics,
+  BulkSessionResult,
+  TransientTransportError,
 } from "./interface.js";
-import { HEALTH_CHECK_SCRIPT, FLUSH_CACHE_SCRIPT } from "./perl-scripts.js";
+import {
+  checkConfigConflict,
+  cliConfigValue,
+  isStructuredConfigValue,
+  replaceConfigKeys,
+} from "../config-diff.js";
+import {
+  persistentConsentsDelete,
+  persistentConsentsGet,
+  persistentSecondFactorsDelType,
+  persistentSecondFactorsDelete,
+  persistentSecondFactorsGet,
+} from "./persistent-session.js";
+import {
+  HEALTH_CHECK_SCRIPT,
+  FLUSH_CACHE_SCRIPT,
+  CONFIG_HISTORY_SCRIPT,
+  HOST_DIAGNOSTICS_SCRIPT,
+  BULK_SESSION_SCRIPT,
+} from "./perl-scripts.js";
+import { callSignal, killOnAbort, withRetries } from "./request-control.js";
+
+// One line per pod: name, creation time, Ready condition, deletion time
+const POD_LIST_JSONPATH =
+  '{range .items[*]}{.metadata.name}{"\\t"}{.metadata.creationTimestamp}{"\\t"}' +
+  '{.status.conditions[?(@.type=="Ready")].status}{"\\t"}{.metadata.deletionTimestamp}{"\\n"}{end}';
+
+// kubectl errors meaning the cached pod is gone (rescheduled, rolled out, evicted)
+const POD_GONE_PATTERN =
+  /pods? "[^"]*" not found|pod does not exist|container not found|cannot exec into a container in a completed pod/i;
+
+// kubectl errors reaching the API server, worth a retry
+const KUBECTL_CONNECTION_PATTERN =
+  /Unable to connect to the server|connection refused|i\/o timeout|TLS handshake timeout|error dialing backend/i;
+
+interface PodInfo {
+  name: string;
+  created: string;
+  ready: boolean;
+  terminating: boolean;
+}
 
 export class K8sTransport implements ILlngTransport {
   private paths: { cliPath: string; sessionsPath: string; configEditorPath: string };
@@ -19,41 +63,101 @@ export class K8sTransport implements ILlngTransport {
     this.paths = resolvePaths(config.binPrefix);
   }
 
-  private async resolvePod(): Promise<string> {
-    if (this.cachedPodName) {
-      return this.cachedPodName;
-    }
-
+  private podSelector(): string {
     if (!this.config.namespace) {
       throw new Error("K8s namespace is required but not configured");
     }
     if (!this.config.deployment && !this.config.podSelector) {
       throw new Error("K8s deployment or podSelector is required but not configured");
     }
-    const selector = this.config.podSelector || `app.kubernetes.io/name=${this.config.deployment}`;
-    const args = ["get", "pods", "-l", selector, "-o", "jsonpath={.items[0].metadata.name}"];
+    return this.config.podSelector || `app.kubernetes.io/name=${this.config.deployment}`;
+  }
+
+  private async getPods(jsonpath: string): Promise<string> {
+    const selector = this.podSelector();
+    const args = ["get", "pods", "-l", selector, "-o", `jsonpath=${jsonpath}`];
 
     if (this.config.context) {
       args.unshift("--context", this.config.context);
     }
     args.unshift("-n", this.config.namespace!);
 
-    const podName = await this.kubectl(args);
-    if (!podName || podName === "{}" || podName.trim() === "") {
+    const output = await this.kubectl(args);
+    if (!output || output === "{}" || output.trim() === "") {
       throw new Error(
         `No pod found for selector '${selector}' in namespace '${this.config.namespace}'`,
       );
     }
+    return output.trim();
+  }
+
+  private async listPods(): Promise<PodInfo[]> {
+    const output = await this.getPods(POD_LIST_JSONPATH);
+    const pods = output
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => {
+        const [name, created = "", ready = "", deleted = ""] = line.split("\t");
+        return { name: name.trim(), created, ready: ready === "True", terminating: deleted !== "" };
+      })
+      .filter((pod) => !pod.terminating);
+    if (pods.length === 0) {
+      throw new Error(
+        `No running pod found for selector '${this.podSelector()}' in namespace '${this.config.namespace}'`,
+      );
+    }
+    return pods;
+  }
 
-    this.cachedPodName = podName.trim();
+  private async resolvePod(): Promise<string> {
+    if (this.config.pod) {
+      return this.config.pod;
+    }
+    if (this.cachedPodName) {
+      return this.cachedPodName;
+    }
+
+    // Prefer Ready pods, fall back to any pod that is not terminating
+    const pods = await this.listPods();
+    const ready = pods.filter((pod) => pod.ready);
+    const candidates = ready.length > 0 ? ready : pods;
+    if (this.config.podSelection === "newest") {
+      candidates.sort((a, b) => b.created.localeCompare(a.created));
+    }
+
+    this.cachedPodName = candidates[0].name;
     return this.cachedPodName;
   }
 
+  /**
+   * Run a command on the resolved pod. If the pod is gone, resolve again and
+   * retry once, unless a pod is pinned.
+   */
+  private async onPod(run: (podName: string) => Promise<string>): Promise<string> {
+    const podName = await this.resolvePod();
+    try {
+      return await run(podName);
+    } catch (e) {
+      if (this.config.pod || !(e instanceof Error) || !POD_GONE_PATTERN.test(e.message)) {
+        throw e;
+      }
+      this.cachedPodName = null;
+      return run(await this.resolvePod());
+    }
+  }
+
   private async kubectl(args: string[]): Promise<string> {
     return new Promise((resolve, reject) => {
       const proc = spawn("kubectl", args);
       let stdout = "";
       let stderr = "";
+      const detach = killOnAbort(
+        proc,
+        callSignal(this.config),
+        reject,
+        "kubectl command",
+        this.config,
+      );
 
       proc.stdout.on("data", (data) => {
         stdout += data.toString();
@@ -64,15 +168,21 @@ export class K8sTransport implements ILlngTransport {
       });
 
       proc.on("close", (code) => {
+        detach();
         if (code !== 0) {
           const errMsg = stderr.trim() || `kubectl command failed with exit code ${code}`;
-          reject(new Error(errMsg));
+          reject(
+            KUBECTL_CONNECTION_PATTERN.test(errMsg)
+              ? new TransientTransportError(errMsg)
+              : new Error(errMsg),
+          );
         } else {
           resolve(stdout);
         }
       });
 
       proc.on("error", () => {
+        detach();
         reject(new Error("kubectl command execution failed"));
       });
     });
@@ -83,6 +193,13 @@ export class K8sTransport implements ILlngTransport {
       const proc = spawn("kubectl", args);
       let stdout = "";
       let stderr = "";
+      const detach = killOnAbort(
+        proc,
+        callSignal(this.config),
+        reject,
+        "kubectl command",
+        this.config,
+      );
 
       proc.stdout.on("data", (data) => {
         stdout += data.toString();
@@ -93,15 +210,21 @@ export class K8sTransport implements ILlngTransport {
       });
 
       proc.on("close", (code) => {
+        detach();
         if (code !== 0) {
           const errMsg = stderr.trim() || `kubectl command failed with exit code ${code}`;
-          reject(new Error(errMsg));
+          reject(
+            KUBECTL_CONNECTION_PATTERN.test(errMsg)
+              ? new TransientTransportError(errMsg)
+              : new Error(errMsg),
+          );
         } else {
           resolve(stdout);
         }
       });
 
       proc.on("error", () => {
+        detach();
         reject(new Error("kubectl command execution failed"));
       });
 
@@ -145,25 +268,36 @@ export class K8sTransport implements ILlngTransport {
   }
 
   private async exec(command: string[]): Promise<string> {
-    const podName = await this.resolvePod();
-    const args = this.buildExecArgs(podName, command);
-    return this.kubectl(args);
+    return this.onPod((podName) => this.kubectl(this.buildExecArgs(podName, command)));
   }
 
   private async execWithStdin(command: string[], input: string): Promise<string> {
-    const podName = await this.resolvePod();
-    const args = this.buildExecStdinArgs(podName, command);
-    return this.kubectlWithStdin(args, input);
+    return this.onPod((podName) =>
+      this.kubectlWithStdin(this.buildExecStdinArgs(podName, command), input),
+    );
+  }
+
+  // Reads are idempotent and may be retried after a transient failure
+  private async read(command: string[]): Promise<string> {
+    return withRetries(this.config, () => this.exec(command));
   }
 
   private async execCli(subArgs: string[]): Promise<string> {
     return this.exec([this.paths.cliPath, ...subArgs]);
   }
 
+  private async readCli(subArgs: string[]): Promise<string> {
+    return this.read([this.paths.cliPath, ...subArgs]);
+  }
+
   private async execSessions(subArgs: string[]): Promise<string> {
     return this.exec([this.paths.sessionsPath, ...subArgs]);
   }
 
+  private async readSessions(subArgs: string[]): Promise<string> {
+    return this.read([this.paths.sessionsPath, ...subArgs]);
+  }
+
   private pushSessionGetOptions(args: string[], options?: SessionGetOptions): void {
     if (!options) return;
     if (options.persistent) {
@@ -182,7 +316,7 @@ export class K8sTransport implements ILlngTransport {
 
   // Config methods
   async configInfo(): Promise<ConfigInfo> {
-    const output = await this.execCli(["info"]);
+    const output = await this.readCli(["info"]);
     const lines = output.trim().split("\n");
     const data: Record<string, string> = {};
     for (const line of lines) {
@@ -201,11 +335,11 @@ export class K8sTransport implements ILlngTransport {
 
   async configGet(keys: string[]): Promise<Record<string, any>> {
     try {
-      const output = await this.execCli(["-json", "get", ...keys]);
+      const output = await this.readCli(["-json", "get", ...keys]);
       return JSON.parse(output);
     } catch {
       // Fallback for older CLI versions that don't support -json
-      const output = await this.execCli(["get", ...keys]);
+      const output = await this.readCli(["get", ...keys]);
       const result: Record<string, any> = {};
       for (const line of output.trim().split("\n")) {
         const match = line.match(/^(\S+)\s*=\s*(.*)$/);
@@ -217,10 +351,23 @@ export class K8sTransport implements ILlngTransport {
     }
   }
 
-  async configSet(pairs: Record<string, any>, log?: string): Promise<void> {
+  async configSet(
+    pairs: Record<string, any>,
+    log?: string,
+    options?: ConfigWriteOptions,
+  ): Promise<void> {
+    if (options?.expectedCfgNum !== undefined) {
+      await checkConfigConflict(this, options.expectedCfgNum, Object.keys(pairs));
+    }
+
+    if (Object.values(pairs).some(isStructuredConfigValue)) {
+      await replaceConfigKeys(this, pairs, log);
+      return;
+    }
+
     const args: string[] = ["set", "-yes", "1"];
     for (const [key, value] of Object.entries(pairs)) {
-      args.push(key, String(value));
+      args.push(key, cliConfigValue(value));
     }
     if (log) {
       args.push("-log", log);
@@ -228,28 +375,62 @@ export class K8sTransport implements ILlngTransport {
     await this.execCli(args);
   }
 
-  async configAddKey(key: string, subkey: string, value: string): Promise<void> {
+  async configAddKey(
+    key: string,
+    subkey: string,
+    value: string,
+    options?: ConfigWriteOptions,
+  ): Promise<void> {
+    if (options?.expectedCfgNum !== undefined) {
+      await checkConfigConflict(this, options.expectedCfgNum, [key]);
+    }
     await this.execCli(["addKey", key, subkey, value]);
   }
 
-  async configDelKey(key: string, subkey: string): Promise<void> {
+  async configDelKey(key: string, subkey: string, options?: ConfigWriteOptions): Promise<void> {
+    if (options?.expectedCfgNum !== undefined) {
+      await checkConfigConflict(this, options.expectedCfgNum, [key]);
+    }
     await this.execCli(["delKey", key, subkey]);
   }
 
-  async configSave(): Promise<string> {
-    return await this.execCli(["save"]);
+  async configSave(cfgNum?: number): Promise<string> {
+    const args = cfgNum !== undefined ? ["-cfgNum", String(cfgNum), "save"] : ["save"];
+    return await this.readCli(args);
   }
 
   async configRestore(json: string): Promise<void> {
     await this.execWithStdin([this.paths.cliPath, "restore", "-yes", "1", "-"], json);
   }
 
-  async configMerge(json: string): Promise<void> {
+  async configMerge(json: string, options?: ConfigWriteOptions): Promise<void> {
+    if (options?.expectedCfgNum !== undefined) {
+      await checkConfigConflict(this, options.expectedCfgNum, Object.keys(JSON.parse(json)));
+    }
     await this.execWithStdin([this.paths.cliPath, "merge", "-yes", "1", "-"], json);
   }
 
-  async configRollback(): Promise<void> {
-    await this.execCli(["rollback", "-yes", "1"]);
+  async configRollback(cfgNum?: number): Promise<void> {
+    if (cfgNum === undefined) {
+      await this.execCli(["rollback", "-yes", "1"]);
+      return;
+    }
+
+    // The CLI rollback only goes one step back: restore the target revision instead
+    const { cfgNum: currentNum } = await this.configInfo();
+    if (cfgNum >= currentNum) {
+      throw new Error(
+        `Cannot rollback: target config ${cfgNum} is not older than current config ${currentNum}`,
+      );
+    }
+    const target = JSON.parse(await this.configSave(cfgNum));
+    target.cfgLog = `Rollback to config ${cfgNum} (from ${currentNum})`;
+    await this.configRestore(JSON.stringify(target));
+  }
+
+  async configHistory(limit = 10): Promise<ConfigInfo[]> {
+    const output = await this.read(["perl", "-e", CONFIG_HISTORY_SCRIPT, String(limit)]);
+    return JSON.parse(output.trim());
   }
 
   async configUpdateCache(): Promise<void> {
@@ -264,7 +445,7 @@ export class K8sTransport implements ILlngTransport {
   async sessionGet(id: string, options?: SessionGetOptions): Promise<Record<string, any>> {
     const args = ["get", id];
     this.pushSessionGetOptions(args, options);
-    const output = await this.execSessions(args);
+    const output = await this.readSessions(args);
     return JSON.parse(output);
   }
 
@@ -296,7 +477,7 @@ export class K8sTransport implements ILlngTransport {
     if (filters.idOnly) {
       args.push("--id-only");
     }
-    const output = await this.execSessions(args);
+    const output = await this.readSessions(args);
     return JSON.parse(output);
   }
 
@@ -354,30 +535,60 @@ export class K8sTransport implements ILlngTransport {
     if (persistent) {
       args.push("--persistent");
     }
-    const output = await this.execSessions(args);
+    const output = await this.readSessions(args);
     return output;
   }
 
-  // 2FA methods
-  async secondFactorsGet(_user: string): Promise<any[]> {
-    throw new Error("secondFactorsGet is not supported via CLI. Use API mode.");
+  // Bulk session methods: one Perl process for all IDs
+  private async bulkSessions(request: Record<string, any>): Promise<BulkSessionResult[]> {
+    const output = await this.execWithStdin(
+      ["perl", "-e", BULK_SESSION_SCRIPT],
+      JSON.stringify(request),
+    );
+    return JSON.parse(output.trim());
+  }
+
+  private bulkBackend(options?: SessionGetOptions): string {
+    if (options?.persistent) return "persistent";
+    if (options?.refreshTokens) return "oidc";
+    return options?.backend || "global";
+  }
+
+  async sessionBulkDelete(
+    ids: string[],
+    options?: SessionGetOptions,
+  ): Promise<BulkSessionResult[]> {
+    return this.bulkSessions({ action: "delete", ids, backend: this.bulkBackend(options) });
+  }
+
+  async sessionBulkSetKey(
+    ids: string[],
+    pairs: Record<string, any>,
+    options?: SessionGetOptions,
+  ): Promise<BulkSessionResult[]> {
+    return this.bulkSessions({ action: "setKey", ids, pairs, backend: this.bulkBackend(options) });
   }
 
-  async secondFactorsDelete(_user: string, _ids: string[]): Promise<void> {
-    throw new Error("secondFactorsDelete is not supported via CLI. Use API mode.");
+  // 2FA methods (stored in the persistent session)
+  async secondFactorsGet(user: string): Promise<any[]> {
+    return persistentSecondFactorsGet(this, user);
   }
 
-  async secondFactorsDelType(_user: string, _type: string): Promise<void> {
-    throw new Error("secondFactorsDelType is not supported via CLI. Use API mode.");
+  async secondFactorsDelete(user: string, ids: string[]): Promise<void> {
+    await persistentSecondFactorsDelete(this, user, ids);
   }
 
-  // Consents methods
-  async consentsGet(_user: string): Promise<any[]> {
-    throw new Error("consentsGet is not supported via CLI. Use API mode.");
+  async secondFactorsDelType(user: string, type: string): Promise<void> {
+    await persistentSecondFactorsDelType(this, user, type);
   }
 
-  async consentsDelete(_user: string, _ids: string[]): Promise<void> {
-    throw new Error("consentsDelete is not supported via CLI. Use API mode.");
+  // Consents methods (stored in the persistent session)
+  async consentsGet(user: string): Promise<any[]> {
+    return persistentConsentsGet(this, user);
+  }
+
+  async consentsDelete(user: string, ids: string[]): Promise<void> {
+    await persistentConsentsDelete(this, user, ids);
   }
 
   async execScript(scriptName: string, args: string[]): Promise<string> {
@@ -386,7 +597,7 @@ export class K8sTransport implements ILlngTransport {
   }
 
   async getVersion(): Promise<string> {
-    const output = await this.exec([
+    const output = await this.read([
       "perl",
       "-MLemonldap::NG::Common",
       "-le",
@@ -404,4 +615,20 @@ export class K8sTransport implements ILlngTransport {
     const output = await this.exec(["perl", "-e", FLUSH_CACHE_SCRIPT, target]);
     return JSON.parse(output.trim());
   }
+
+  async diagnoseHost(): Promise<HostDiagnostics> {
+    const output = await this.read(["perl", "-e", HOST_DIAGNOSTICS_SCRIPT]);
+    return JSON.parse(output.trim());
+  }
+
+  async listNodes(): Promise<string[]> {
+    if (this.config.pod) {
+      return [this.config.pod];
+    }
+    return (await this.listPods()).map((pod) => pod.name);
+  }
+
+  forNode(node: string): ILlngTransport {
+    return new K8sTransport({ ...this.config, pod: node });
+  }
 }
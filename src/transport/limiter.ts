@@ -0,0 +1,29 @@
+/**
+ * Bounded concurrency: at most `max` tasks run at once, the others wait in
+ * FIFO order.
+ */
+export class ConcurrencyLimiter {
+  private running = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private max: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running >= this.max) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.running++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        // Hand the slot over to the next task
+        next();
+      } else {
+        this.running--;
+      }
+    }
+  }
+}
@@ -126,3 +126,140 @@ if ($target eq 'sessions' || $target eq 'all') {
 
 print JSON::to_json(\\%res);
 `;
+
+export const CONFIG_HISTORY_SCRIPT = `
+use JSON;
+use Lemonldap::NG::Common::Conf;
+my $limit = shift || 10;
+my $conf = Lemonldap::NG::Common::Conf->new();
+die "Failed to create Conf object\\n" unless $conf;
+
+my @nums = sort { $b <=> $a } $conf->available();
+splice(@nums, $limit) if @nums > $limit;
+
+my @res;
+for my $num (@nums) {
+    my $cfg = $conf->getConf({ cfgNum => $num, raw => 1, noCache => 1 });
+    next unless $cfg;
+    push @res, {
+        cfgNum    => $cfg->{cfgNum} + 0,
+        cfgAuthor => $cfg->{cfgAuthor} // "",
+        cfgDate   => $cfg->{cfgDate} // "",
+        (defined $cfg->{cfgLog} ? (cfgLog => $cfg->{cfgLog}) : ()),
+    };
+}
+
+print JSON::to_json(\\@res);
+`;
+
+export const HOST_DIAGNOSTICS_SCRIPT = `
+use JSON;
+use Lemonldap::NG::Common::Conf;
+my %res = ( time => time );
+my $cfg;
+
+# 1. Compare the local config cache with the config database
+eval {
+    my $conf = Lemonldap::NG::Common::Conf->new();
+    die "Failed to create Conf object" unless $conf;
+    $cfg = $conf->getConf( { noCache => 1 } );
+    die "Failed to read configuration" unless $cfg;
+    if ( my $local = $conf->{refLocalStorage} ) {
+        my $cached = $local->get('conf');
+        $res{configCache} = {
+            status => "ok",
+            db     => $cfg->{cfgNum},
+            cache  => ( $cached ? $cached->{cfgNum} : undef ),
+        };
+    }
+    else {
+        $res{configCache} =
+          { status => "skipped", reason => "No local config cache configured", db => $cfg->{cfgNum} };
+    }
+};
+if ($@) {
+    (my $err = "$@") =~ s/\\s+$//;
+    $res{configCache} = { status => "error", error => $err };
+}
+
+my $modules = $cfg ? join( " ", grep { defined } map { $cfg->{$_} } qw(authentication userDB passwordDB) ) : "";
+
+# 2. LDAP / Active Directory backend
+if ( $modules =~ /\\b(LDAP|AD)\\b/ ) {
+    eval {
+        require Net::LDAP;
+        my $ldap = Net::LDAP->new( [ split /[\\s,]+/, $cfg->{ldapServer} ], timeout => $cfg->{ldapTimeout} || 5 )
+          or die "Cannot connect to $cfg->{ldapServer}: $@";
+        my $mesg = $cfg->{managerDn}
+          ? $ldap->bind( $cfg->{managerDn}, password => $cfg->{managerPassword} )
+          : $ldap->bind;
+        die "Bind failed: " . $mesg->error . "\\n" if $mesg->code;
+        $ldap->unbind;
+        $res{ldap} = { status => "ok", server => $cfg->{ldapServer} };
+    };
+    if ($@) {
+        (my $err = "$@") =~ s/\\s+$//;
+        $res{ldap} = { status => "error", server => $cfg->{ldapServer}, error => $err };
+    }
+}
+
+# 3. SQL backend
+if ( $modules =~ /\\bDBI\\b/ ) {
+    eval {
+        require DBI;
+        my $dbh = DBI->connect( $cfg->{dbiAuthChain}, $cfg->{dbiAuthUser}, $cfg->{dbiAuthPassword},
+            { RaiseError => 1, PrintError => 0 } );
+        $dbh->disconnect;
+        $res{sql} = { status => "ok" };
+    };
+    if ($@) {
+        (my $err = "$@") =~ s/\\s+$//;
+        $res{sql} = { status => "error", error => $err };
+    }
+}
+
+print JSON::to_json(\\%res);
+`;
+
+export const BULK_SESSION_SCRIPT = `
+use JSON;
+use Lemonldap::NG::Common::Conf;
+use Lemonldap::NG::Common::Session;
+
+# Request on stdin: { action: "delete"|"setKey", ids: [...], pairs: {...}, backend: "global" }
+# ids are session IDs in every backend, persistent included (not user logins)
+my $req = from_json( do { local $/; <STDIN> } );
+my $cfg = Lemonldap::NG::Common::Conf->new()->getConf()
+  or die "Failed to read configuration\\n";
+my $backend = $req->{backend} || 'global';
+my ( $module, $opts ) = ( $cfg->{ $backend . 'Storage' }, $cfg->{ $backend . 'StorageOptions' } );
+( $module, $opts ) = ( $cfg->{globalStorage}, $cfg->{globalStorageOptions} ) unless $module;
+
+my @res;
+for my $id ( @{ $req->{ids} } ) {
+    eval {
+        my $s = Lemonldap::NG::Common::Session->new( {
+            storageModule        => $module,
+            storageModuleOptions => $opts,
+            id                   => $id,
+        } );
+        die( ( $s->error || "Session not found" ) . "\\n" )
+          if $s->error or !$s->data->{_session_id};
+        if ( $req->{action} eq 'delete' ) {
+            $s->remove or die( ( $s->error || "Delete failed" ) . "\\n" );
+        }
+        else {
+            $s->update( $req->{pairs} ) or die( ( $s->error || "Update failed" ) . "\\n" );
+        }
+    };
+    if ($@) {
+        (my $err = "$@") =~ s/\\s+$//;
+        push @res, { id => $id, status => "error", error => $err };
+    }
+    else {
+        push @res, { id => $id, status => "ok" };
+    }
+}
+
+print JSON::to_json(\\@res);
+`;
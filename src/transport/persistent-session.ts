@@ -0,0 +1,95 @@
+import { ILlngTransport } from "./interface.js";
+
+/**
+ * 2FA devices and OIDC consents stored in the user's persistent session, for
+ * transports without the manager REST API (SSH and K8s).
+ *
+ * Devices are identified by the base64url of "epoch::type::name", consents
+ * by their relying party. They may differ from the ids of the REST API.
+ */
+
+const DEVICES_KEY = "_2fDevices";
+const CONSENTS_KEY = "_oidcConsents";
+
+function parseList(value: unknown): any[] {
+  if (value === undefined || value === null || value === "") return [];
+  if (Array.isArray(value)) return value;
+  const parsed = JSON.parse(String(value));
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+async function readList(transport: ILlngTransport, user: string, key: string): Promise<any[]> {
+  const session = await transport.sessionGet(user, { persistent: true });
+  return parseList(session?.[key]);
+}
+
+async function writeList(
+  transport: ILlngTransport,
+  user: string,
+  key: string,
+  list: any[],
+): Promise<void> {
+  await transport.sessionSetKey(user, { [key]: JSON.stringify(list) }, { persistent: true });
+}
+
+export function secondFactorId(device: Record<string, any>): string {
+  return Buffer.from(`${device.epoch}::${device.type}::${device.name}`).toString("base64url");
+}
+
+export async function persistentSecondFactorsGet(
+  transport: ILlngTransport,
+  user: string,
+): Promise<any[]> {
+  const devices = await readList(transport, user, DEVICES_KEY);
+  return devices.map((device) => ({
+    id: secondFactorId(device),
+    type: device.type,
+    name: device.name,
+    epoch: device.epoch,
+  }));
+}
+
+export async function persistentSecondFactorsDelete(
+  transport: ILlngTransport,
+  user: string,
+  ids: string[],
+): Promise<void> {
+  const devices = await readList(transport, user, DEVICES_KEY);
+  const remaining = devices.filter((device) => !ids.includes(secondFactorId(device)));
+  if (remaining.length === devices.length) {
+    throw new Error(`No 2FA device matching ${ids.join(", ")} for user '${user}'`);
+  }
+  await writeList(transport, user, DEVICES_KEY, remaining);
+}
+
+export async function persistentSecondFactorsDelType(
+  transport: ILlngTransport,
+  user: string,
+  type: string,
+): Promise<void> {
+  const devices = await readList(transport, user, DEVICES_KEY);
+  const remaining = devices.filter((device) => device.type !== type);
+  if (remaining.length === devices.length) return;
+  await writeList(transport, user, DEVICES_KEY, remaining);
+}
+
+export async function persistentConsentsGet(
+  transport: ILlngTransport,
+  user: string,
+): Promise<any[]> {
+  const consents = await readList(transport, user, CONSENTS_KEY);
+  return consents.map((consent) => ({ id: consent.rp, ...consent }));
+}
+
+export async function persistentConsentsDelete(
+  transport: ILlngTransport,
+  user: string,
+  ids: string[],
+): Promise<void> {
+  const consents = await readList(transport, user, CONSENTS_KEY);
+  const remaining = consents.filter((consent) => !ids.includes(consent.rp));
+  if (remaining.length === consents.length) {
+    throw new Error(`No consent matching ${ids.join(", ")} for user '${user}'`);
+  }
+  await writeList(transport, user, CONSENTS_KEY, remaining);
+}
@@ -1,4 +1,12 @@
-import { LlngMultiConfig, LlngInstanceConfig, LlngConfig, OidcConfig } from "../config.js";
+import {
+  InstancePolicy,
+  LlngMultiConfig,
+  LlngInstanceConfig,
+  LlngConfig,
+  OidcConfig,
+  RequestConfig,
+} from "../config.js";
+import { policyDenialReason } from "../policy.js";
 import { ILlngTransport } from "./interface.js";
 import { ApiTransport } from "./api.js";
 import { SshTransport } from "./ssh.js";
@@ -34,18 +42,24 @@ export class TransportRegistry {
   }
 
   private buildTransport(config: LlngConfig): ILlngTransport {
+    // Instance-level timeout and retry settings, unless the transport sets its own
+    const request: RequestConfig = {};
+    if (config.timeoutMs !== undefined) request.timeoutMs = config.timeoutMs;
+    if (config.retries !== undefined) request.retries = config.retries;
+    if (config.retryDelayMs !== undefined) request.retryDelayMs = config.retryDelayMs;
+
     if (config.mode === "api") {
       if (!config.api) {
         throw new Error(`API mode requires 'api' configuration`);
       }
-      return new ApiTransport(config.api);
+      return new ApiTransport({ ...request, ...config.api });
     } else if (config.mode === "k8s") {
       if (!config.k8s) {
         throw new Error(`K8s mode requires 'k8s' configuration`);
       }
-      return new K8sTransport(config.k8s);
+      return new K8sTransport({ ...request, ...config.k8s });
     } else {
-      return new SshTransport(config.ssh ?? {});
+      return new SshTransport({ ...request, ...config.ssh });
     }
   }
 
@@ -54,6 +68,9 @@ export class TransportRegistry {
     const m = config.manager;
     const merged: LlngConfig = {
       mode: m.mode ?? config.mode,
+      timeoutMs: config.timeoutMs,
+      retries: config.retries,
+      retryDelayMs: config.retryDelayMs,
     };
     // Deep merge ssh: parent ssh + manager ssh overrides
     if (config.mode === "ssh" || merged.mode === "ssh") {
@@ -89,17 +106,44 @@ export class TransportRegistry {
     return entry.portal;
   }
 
+  getDefaultInstance(): string {
+    return this.defaultInstance;
+  }
+
   getOidcConfig(instance?: string): OidcConfig | undefined {
     const { config } = this.resolveInstance(instance);
     return config.oidc;
   }
 
-  listInstances(): { name: string; mode: string; isDefault: boolean; hasManager: boolean }[] {
+  getPolicy(instance?: string): InstancePolicy | undefined {
+    const { config } = this.resolveInstance(instance);
+    return config.policy;
+  }
+
+  /**
+   * Throw when the instance policy forbids calling the tool.
+   */
+  checkToolAllowed(tool: string, instance?: string): void {
+    const { name, config } = this.resolveInstance(instance);
+    const reason = policyDenialReason(config.policy, tool);
+    if (reason) {
+      throw new Error(`Tool '${tool}' is not allowed on instance '${name}': ${reason}`);
+    }
+  }
+
+  listInstances(): {
+    name: string;
+    mode: string;
+    isDefault: boolean;
+    hasManager: boolean;
+    policy?: InstancePolicy;
+  }[] {
     return Object.entries(this.configs).map(([name, config]) => ({
       name,
       mode: config.mode,
       isDefault: name === this.defaultInstance,
       hasManager: !!config.manager,
+      ...(config.policy ? { policy: config.policy } : {}),
     }));
   }
 }
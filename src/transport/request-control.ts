@@ -0,0 +1,93 @@
+import { ChildProcess } from "child_process";
+import { setTimeout as sleep } from "timers/promises";
+import { RequestConfig } from "../config.js";
+import { currentRequestSignal } from "../cancellation.js";
+import {
+  TransientTransportError,
+  TransportCancelledError,
+  TransportTimeoutError,
+} from "./interface.js";
+
+/**
+ * Timeouts, client cancellation and retries shared by all transports.
+ */
+
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+/**
+ * Signal for one command or request: aborted when the configured timeout
+ * expires or when the client cancels the tool call. Without `timeoutMs`,
+ * commands run to completion so that long writes (bulk session deletion,
+ * config restore) are never cut off partway.
+ */
+export function callSignal(config: RequestConfig): AbortSignal | undefined {
+  const signals: AbortSignal[] = [];
+  const request = currentRequestSignal();
+  if (request) signals.push(request);
+  if (config.timeoutMs && config.timeoutMs > 0) {
+    signals.push(AbortSignal.timeout(config.timeoutMs));
+  }
+  if (signals.length === 0) return undefined;
+  return signals.length === 1 ? signals[0] : AbortSignal.any(signals);
+}
+
+/**
+ * Error describing why `signal` was aborted.
+ */
+export function abortError(signal: AbortSignal, operation: string, config: RequestConfig): Error {
+  if (signal.reason instanceof Error && signal.reason.name === "TimeoutError") {
+    return new TransportTimeoutError(operation, config.timeoutMs ?? 0);
+  }
+  return new TransportCancelledError(operation);
+}
+
+/**
+ * Kill `proc` when `signal` aborts and report the abort through `fail`.
+ * Returns the function detaching the listener once the process has exited.
+ */
+export function killOnAbort(
+  proc: ChildProcess,
+  signal: AbortSignal | undefined,
+  fail: (error: Error) => void,
+  operation: string,
+  config: RequestConfig,
+): () => void {
+  if (!signal) return () => {};
+  const onAbort = () => {
+    proc.kill("SIGTERM");
+    fail(abortError(signal, operation, config));
+  };
+  if (signal.aborted) {
+    onAbort();
+    return () => {};
+  }
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
+}
+
+/**
+ * Run an idempotent read, retrying transient failures with exponential
+ * backoff. Cancellation by the client is never retried.
+ */
+export async function withRetries<T>(
+  config: RequestConfig,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const retries = config.retries ?? 0;
+  const delay = config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (e) {
+      if (attempt >= retries || !(e instanceof TransientTransportError)) {
+        throw e;
+      }
+      const request = currentRequestSignal();
+      try {
+        await sleep(delay * 2 ** attempt, undefined, { signal: request });
+      } catch {
+        throw new TransportCancelledError("Retry");
+      }
+    }
+  }
+}
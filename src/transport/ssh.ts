@@ -1,20 +1,62 @@
 import { spawn } from "child_process";
+import { tmpdir } from "os";
+import { join } from "path";
 import { SshConfig, resolvePaths } from "../config.js";
 import {
   ILlngTransport,
   SessionFilter,
   ConfigInfo,
+  ConfigWriteOptions,
   SessionGetOptions,
   SessionDeleteOptions,
   HealthCheckResult,
   FlushCacheResult,
+  HostDiagnostics,
+  BulkSessionResult,
+  TransientTransportError,
 } from "./interface.js";
-import { HEALTH_CHECK_SCRIPT, FLUSH_CACHE_SCRIPT } from "./perl-scripts.js";
+import {
+  checkConfigConflict,
+  cliConfigValue,
+  isStructuredConfigValue,
+  replaceConfigKeys,
+} from "../config-diff.js";
+import {
+  persistentConsentsDelete,
+  persistentConsentsGet,
+  persistentSecondFactorsDelType,
+  persistentSecondFactorsDelete,
+  persistentSecondFactorsGet,
+} from "./persistent-session.js";
+import {
+  HEALTH_CHECK_SCRIPT,
+  FLUSH_CACHE_SCRIPT,
+  CONFIG_HISTORY_SCRIPT,
+  HOST_DIAGNOSTICS_SCRIPT,
+  BULK_SESSION_SCRIPT,
+} from "./perl-scripts.js";
+import { ConcurrencyLimiter } from "./limiter.js";
+import { callSignal, killOnAbort, withRetries } from "./request-control.js";
+
+// Node name when commands run on this machine (no SSH host)
+const LOCAL_NODE = "local";
+
+const DEFAULT_MAX_CONCURRENT = 4;
+const DEFAULT_CONTROL_PERSIST = 60; // seconds
+// Commands chained per remote shell by execBatch
+const SSH_BATCH_SIZE = 50;
+// Exit status of ssh itself when the connection fails
+const SSH_CONNECTION_ERROR = 255;
 
 export class SshTransport implements ILlngTransport {
   private paths: { cliPath: string; sessionsPath: string; configEditorPath: string };
+  private limiter: ConcurrencyLimiter;
 
   constructor(private config: SshConfig) {
+    if (!config.host && config.hosts && config.hosts.length > 0) {
+      this.config = { ...config, host: config.hosts[0] };
+    }
+    this.limiter = new ConcurrencyLimiter(config.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
     this.paths = resolvePaths(
       config.binPrefix,
       config.cliPath,
@@ -24,173 +66,170 @@ export class SshTransport implements ILlngTransport {
   }
 
   private async exec(args: string[], env?: Record<string, string>): Promise<string> {
-    return new Promise((resolve, reject) => {
-      let cmd: string;
-      let cmdArgs: string[];
-
-      if (this.config.host) {
-        // SSH mode
-        cmd = "ssh";
-        cmdArgs = [];
-
-        if (this.config.port) {
-          cmdArgs.push("-p", this.config.port.toString());
-        }
-
-        const hostSpec = this.config.user
-          ? `${this.config.user}@${this.config.host}`
-          : this.config.host;
-        cmdArgs.push(hostSpec);
-
-        // Build the remote command
-        let remoteCmd = args.map((arg) => this.shellQuote(arg)).join(" ");
-
-        // If env vars are provided, prefix with env command
-        if (env) {
-          const envPrefix = Object.entries(env)
-            .map(([k, v]) => `${k}=${this.shellQuote(v)}`)
-            .join(" ");
-          remoteCmd = `env ${envPrefix} ${remoteCmd}`;
-        }
-
-        // Insert remoteCommand between sudo and the LLNG command
-        if (this.config.remoteCommand) {
-          remoteCmd = `${this.config.remoteCommand} ${remoteCmd}`;
-        }
+    if (this.config.host) {
+      return this.spawnQueued("ssh", [...this.sshArgs(), this.remoteCommandLine(args, env)], env);
+    }
+    const [cmd, ...cmdArgs] = this.localCommand(args);
+    return this.spawnQueued(cmd, cmdArgs, env);
+  }
 
-        if (this.config.sudo) {
-          remoteCmd = `sudo -u ${this.shellQuote(this.config.sudo)} ${remoteCmd}`;
-        }
+  private async execWithStdin(args: string[], input: string): Promise<string> {
+    if (this.config.host) {
+      return this.spawnQueued(
+        "ssh",
+        [...this.sshArgs(), this.remoteCommandLine(args)],
+        undefined,
+        input,
+      );
+    }
+    const [cmd, ...cmdArgs] = this.localCommand(args);
+    return this.spawnQueued(cmd, cmdArgs, undefined, input);
+  }
 
-        cmdArgs.push(remoteCmd);
-      } else {
-        // Local mode
-        if (this.config.sudo) {
-          cmd = "sudo";
-          cmdArgs = ["-u", this.config.sudo];
-          if (this.config.remoteCommand) {
-            cmdArgs.push(...this.config.remoteCommand.split(" "), ...args);
-          } else {
-            cmdArgs.push(...args);
-          }
-        } else if (this.config.remoteCommand) {
-          const parts = this.config.remoteCommand.split(" ");
-          cmd = parts[0];
-          cmdArgs = [...parts.slice(1), ...args];
-        } else {
-          cmd = args[0];
-          cmdArgs = args.slice(1);
-        }
+  /**
+   * Run several commands, stopping at the first failure. Over SSH they are
+   * chained in a single remote shell to save round-trips.
+   */
+  private async execBatch(commands: string[][]): Promise<void> {
+    if (!this.config.host) {
+      for (const args of commands) {
+        await this.exec(args);
       }
+      return;
+    }
+    for (let i = 0; i < commands.length; i += SSH_BATCH_SIZE) {
+      const line = commands
+        .slice(i, i + SSH_BATCH_SIZE)
+        .map((args) => this.remoteCommandLine(args))
+        .join(" && ");
+      await this.spawnQueued("ssh", [...this.sshArgs(), line]);
+    }
+  }
 
-      const spawnOpts = env ? { env: { ...process.env, ...env } } : undefined;
-      const proc = spawn(cmd, cmdArgs, spawnOpts);
-      let stdout = "";
-      let stderr = "";
-
-      proc.stdout.on("data", (data) => {
-        stdout += data.toString();
-      });
+  private sshArgs(): string[] {
+    const args: string[] = [];
 
-      proc.stderr.on("data", (data) => {
-        stderr += data.toString();
-      });
+    if (this.config.port) {
+      args.push("-p", this.config.port.toString());
+    }
 
-      proc.on("close", (code) => {
-        if (code !== 0) {
-          const errMsg = stderr.trim() || `Command failed with exit code ${code}`;
-          reject(new Error(errMsg));
-        } else {
-          resolve(stdout);
-        }
-      });
+    if (this.config.multiplex) {
+      // Reuse one master connection for all commands to this host
+      args.push(
+        "-o",
+        "ControlMaster=auto",
+        "-o",
+        `ControlPath=${join(tmpdir(), "llng-mcp-%C")}`,
+        "-o",
+        `ControlPersist=${this.config.controlPersist ?? DEFAULT_CONTROL_PERSIST}`,
+      );
+    }
 
-      proc.on("error", () => {
-        reject(new Error("Command execution failed"));
-      });
-    });
+    const hostSpec = this.config.user
+      ? `${this.config.user}@${this.config.host}`
+      : this.config.host!;
+    args.push(hostSpec);
+    return args;
   }
 
-  private async execWithStdin(args: string[], input: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      let cmd: string;
-      let cmdArgs: string[];
-
-      if (this.config.host) {
-        // SSH mode
-        cmd = "ssh";
-        cmdArgs = [];
-
-        if (this.config.port) {
-          cmdArgs.push("-p", this.config.port.toString());
-        }
+  private remoteCommandLine(args: string[], env?: Record<string, string>): string {
+    // Build the remote command
+    let remoteCmd = args.map((arg) => this.shellQuote(arg)).join(" ");
 
-        const hostSpec = this.config.user
-          ? `${this.config.user}@${this.config.host}`
-          : this.config.host;
-        cmdArgs.push(hostSpec);
+    // If env vars are provided, prefix with env command
+    if (env) {
+      const envPrefix = Object.entries(env)
+        .map(([k, v]) => `${k}=${this.shellQuote(v)}`)
+        .join(" ");
+      remoteCmd = `env ${envPrefix} ${remoteCmd}`;
+    }
 
-        // Build the remote command
-        let remoteCmd = args.map((arg) => this.shellQuote(arg)).join(" ");
+    // Insert remoteCommand between sudo and the LLNG command
+    if (this.config.remoteCommand) {
+      remoteCmd = `${this.config.remoteCommand} ${remoteCmd}`;
+    }
 
-        if (this.config.remoteCommand) {
-          remoteCmd = `${this.config.remoteCommand} ${remoteCmd}`;
-        }
+    if (this.config.sudo) {
+      remoteCmd = `sudo -u ${this.shellQuote(this.config.sudo)} ${remoteCmd}`;
+    }
 
-        if (this.config.sudo) {
-          remoteCmd = `sudo -u ${this.shellQuote(this.config.sudo)} ${remoteCmd}`;
-        }
+    return remoteCmd;
+  }
 
-        cmdArgs.push(remoteCmd);
-      } else {
-        // Local mode
-        if (this.config.sudo) {
-          cmd = "sudo";
-          cmdArgs = ["-u", this.config.sudo];
-          if (this.config.remoteCommand) {
-            cmdArgs.push(...this.config.remoteCommand.split(" "), ...args);
-          } else {
-            cmdArgs.push(...args);
-          }
-        } else if (this.config.remoteCommand) {
-          const parts = this.config.remoteCommand.split(" ");
-          cmd = parts[0];
-          cmdArgs = [...parts.slice(1), ...args];
-        } else {
-          cmd = args[0];
-          cmdArgs = args.slice(1);
-        }
+  private localCommand(args: string[]): string[] {
+    if (this.config.sudo) {
+      const command = ["sudo", "-u", this.config.sudo];
+      if (this.config.remoteCommand) {
+        command.push(...this.config.remoteCommand.split(" "));
       }
+      return [...command, ...args];
+    }
+    if (this.config.remoteCommand) {
+      return [...this.config.remoteCommand.split(" "), ...args];
+    }
+    return args;
+  }
 
-      const proc = spawn(cmd, cmdArgs);
-      let stdout = "";
-      let stderr = "";
-
-      proc.stdout.on("data", (data) => {
-        stdout += data.toString();
-      });
-
-      proc.stderr.on("data", (data) => {
-        stderr += data.toString();
-      });
-
-      proc.on("close", (code) => {
-        if (code !== 0) {
-          const errMsg = stderr.trim() || `Command failed with exit code ${code}`;
-          reject(new Error(errMsg));
-        } else {
-          resolve(stdout);
-        }
-      });
-
-      proc.on("error", () => {
-        reject(new Error("Command execution failed"));
-      });
+  private spawnQueued(
+    cmd: string,
+    cmdArgs: string[],
+    env?: Record<string, string>,
+    input?: string,
+  ): Promise<string> {
+    return this.limiter.run(
+      () =>
+        new Promise((resolve, reject) => {
+          const spawnOpts = env ? { env: { ...process.env, ...env } } : undefined;
+          const proc = spawn(cmd, cmdArgs, spawnOpts);
+          let stdout = "";
+          let stderr = "";
+
+          // The timeout starts once the command runs, not while it is queued
+          const detach = killOnAbort(
+            proc,
+            callSignal(this.config),
+            reject,
+            `${cmd} command`,
+            this.config,
+          );
+
+          proc.stdout.on("data", (data) => {
+            stdout += data.toString();
+          });
+
+          proc.stderr.on("data", (data) => {
+            stderr += data.toString();
+          });
+
+          proc.on("close", (code) => {
+            detach();
+            if (code === SSH_CONNECTION_ERROR && cmd === "ssh") {
+              reject(new TransientTransportError(stderr.trim() || "SSH connection failed"));
+            } else if (code !== 0) {
+              const errMsg = stderr.trim() || `Command failed with exit code ${code}`;
+              reject(new Error(errMsg));
+            } else {
+              resolve(stdout);
+            }
+          });
+
+          proc.on("error", () => {
+            detach();
+            reject(new Error("Command execution failed"));
+          });
+
+          if (input !== undefined) {
+            // Write input to stdin
+            proc.stdin.write(input);
+            proc.stdin.end();
+          }
+        }),
+    );
+  }
 
-      // Write input to stdin
-      proc.stdin.write(input);
-      proc.stdin.end();
-    });
+  // Reads are idempotent and may be retried after a transient failure
+  private async read(args: string[], env?: Record<string, string>): Promise<string> {
+    return withRetries(this.config, () => this.exec(args, env));
   }
 
   private shellQuote(arg: string): string {
@@ -202,10 +241,18 @@ export class SshTransport implements ILlngTransport {
     return this.exec([this.paths.cliPath, ...subArgs]);
   }
 
+  private async readCli(subArgs: string[]): Promise<string> {
+    return this.read([this.paths.cliPath, ...subArgs]);
+  }
+
   private async execSessions(subArgs: string[]): Promise<string> {
     return this.exec([this.paths.sessionsPath, ...subArgs]);
   }
 
+  private async readSessions(subArgs: string[]): Promise<string> {
+    return this.read([this.paths.sessionsPath, ...subArgs]);
+  }
+
   private async execConfigEditor(subArgs: string[]): Promise<string> {
     return this.exec([this.paths.configEditorPath, ...subArgs], { EDITOR: "cat" });
   }
@@ -228,7 +275,7 @@ export class SshTransport implements ILlngTransport {
 
   // Config methods
   async configInfo(): Promise<ConfigInfo> {
-    const output = await this.execCli(["info"]);
+    const output = await this.readCli(["info"]);
     // Parse text output like "Num      : 1\nAuthor   : The LemonLDAP::NG team\n..."
     const lines = output.trim().split("\n");
     const data: Record<string, string> = {};
@@ -248,11 +295,11 @@ export class SshTransport implements ILlngTransport {
 
   async configGet(keys: string[]): Promise<Record<string, any>> {
     try {
-      const output = await this.execCli(["-json", "get", ...keys]);
+      const output = await this.readCli(["-json", "get", ...keys]);
       return JSON.parse(output);
     } catch {
       // Fallback for older CLI versions that don't support -json
-      const output = await this.execCli(["get", ...keys]);
+      const output = await this.readCli(["get", ...keys]);
       const result: Record<string, any> = {};
       for (const line of output.trim().split("\n")) {
         const match = line.match(/^(\S+)\s*=\s*(.*)$/);
@@ -264,11 +311,23 @@ export class SshTransport implements ILlngTransport {
     }
   }
 
-  async configSet(pairs: Record<string, any>, log?: string): Promise<void> {
-    const args: string[] = ["set", "-yes", "1"];
+  async configSet(
+    pairs: Record<string, any>,
+    log?: string,
+    options?: ConfigWriteOptions,
+  ): Promise<void> {
+    if (options?.expectedCfgNum !== undefined) {
+      await checkConfigConflict(this, options.expectedCfgNum, Object.keys(pairs));
+    }
+
+    if (Object.values(pairs).some(isStructuredConfigValue)) {
+      await replaceConfigKeys(this, pairs, log);
+      return;
+    }
 
+    const args: string[] = ["set", "-yes", "1"];
     for (const [key, value] of Object.entries(pairs)) {
-      args.push(key, String(value));
+      args.push(key, cliConfigValue(value));
     }
 
     if (log) {
@@ -278,28 +337,62 @@ export class SshTransport implements ILlngTransport {
     await this.execCli(args);
   }
 
-  async configAddKey(key: string, subkey: string, value: string): Promise<void> {
+  async configAddKey(
+    key: string,
+    subkey: string,
+    value: string,
+    options?: ConfigWriteOptions,
+  ): Promise<void> {
+    if (options?.expectedCfgNum !== undefined) {
+      await checkConfigConflict(this, options.expectedCfgNum, [key]);
+    }
     await this.execCli(["addKey", key, subkey, value]);
   }
 
-  async configDelKey(key: string, subkey: string): Promise<void> {
+  async configDelKey(key: string, subkey: string, options?: ConfigWriteOptions): Promise<void> {
+    if (options?.expectedCfgNum !== undefined) {
+      await checkConfigConflict(this, options.expectedCfgNum, [key]);
+    }
     await this.execCli(["delKey", key, subkey]);
   }
 
-  async configSave(): Promise<string> {
-    return await this.execCli(["save"]);
+  async configSave(cfgNum?: number): Promise<string> {
+    const args = cfgNum !== undefined ? ["-cfgNum", String(cfgNum), "save"] : ["save"];
+    return await this.readCli(args);
   }
 
   async configRestore(json: string): Promise<void> {
     await this.execWithStdin([this.paths.cliPath, "restore", "-yes", "1", "-"], json);
   }
 
-  async configMerge(json: string): Promise<void> {
+  async configMerge(json: string, options?: ConfigWriteOptions): Promise<void> {
+    if (options?.expectedCfgNum !== undefined) {
+      await checkConfigConflict(this, options.expectedCfgNum, Object.keys(JSON.parse(json)));
+    }
     await this.execWithStdin([this.paths.cliPath, "merge", "-yes", "1", "-"], json);
   }
 
-  async configRollback(): Promise<void> {
-    await this.execCli(["rollback", "-yes", "1"]);
+  async configRollback(cfgNum?: number): Promise<void> {
+    if (cfgNum === undefined) {
+      await this.execCli(["rollback", "-yes", "1"]);
+      return;
+    }
+
+    // The CLI rollback only goes one step back: restore the target revision instead
+    const { cfgNum: currentNum } = await this.configInfo();
+    if (cfgNum >= currentNum) {
+      throw new Error(
+        `Cannot rollback: target config ${cfgNum} is not older than current config ${currentNum}`,
+      );
+    }
+    const target = JSON.parse(await this.configSave(cfgNum));
+    target.cfgLog = `Rollback to config ${cfgNum} (from ${currentNum})`;
+    await this.configRestore(JSON.stringify(target));
+  }
+
+  async configHistory(limit = 10): Promise<ConfigInfo[]> {
+    const output = await this.read(["perl", "-e", CONFIG_HISTORY_SCRIPT, String(limit)]);
+    return JSON.parse(output.trim());
   }
 
   async configUpdateCache(): Promise<void> {
@@ -315,7 +408,7 @@ export class SshTransport implements ILlngTransport {
     const args = ["get", id];
     this.pushSessionGetOptions(args, options);
 
-    const output = await this.execSessions(args);
+    const output = await this.readSessions(args);
     return JSON.parse(output);
   }
 
@@ -356,7 +449,7 @@ export class SshTransport implements ILlngTransport {
       args.push("--id-only");
     }
 
-    const output = await this.execSessions(args);
+    const output = await this.readSessions(args);
     return JSON.parse(output);
   }
 
@@ -374,11 +467,12 @@ export class SshTransport implements ILlngTransport {
       const deleteScriptPath =
         this.config.deleteSessionPath ||
         this.paths.cliPath.replace("lemonldap-ng-cli", "llngDeleteSession");
-      for (const id of ids) {
+      const commands = ids.map((id) => {
         const args = [deleteScriptPath, id];
         this.pushSessionGetOptions(args, options);
-        await this.exec(args);
-      }
+        return args;
+      });
+      await this.execBatch(commands);
     }
   }
 
@@ -417,30 +511,60 @@ export class SshTransport implements ILlngTransport {
     if (persistent) {
       args.push("--persistent");
     }
-    const output = await this.execSessions(args);
+    const output = await this.readSessions(args);
     return output;
   }
 
-  // 2FA methods
-  async secondFactorsGet(_user: string): Promise<any[]> {
-    throw new Error("secondFactorsGet is not supported via CLI. Use API mode.");
+  // Bulk session methods: one Perl process for all IDs
+  private async bulkSessions(request: Record<string, any>): Promise<BulkSessionResult[]> {
+    const output = await this.execWithStdin(
+      ["perl", "-e", BULK_SESSION_SCRIPT],
+      JSON.stringify(request),
+    );
+    return JSON.parse(output.trim());
+  }
+
+  private bulkBackend(options?: SessionGetOptions): string {
+    if (options?.persistent) return "persistent";
+    if (options?.refreshTokens) return "oidc";
+    return options?.backend || "global";
   }
 
-  async secondFactorsDelete(_user: string, _ids: string[]): Promise<void> {
-    throw new Error("secondFactorsDelete is not supported via CLI. Use API mode.");
+  async sessionBulkDelete(
+    ids: string[],
+    options?: SessionGetOptions,
+  ): Promise<BulkSessionResult[]> {
+    return this.bulkSessions({ action: "delete", ids, backend: this.bulkBackend(options) });
+  }
+
+  async sessionBulkSetKey(
+    ids: string[],
+    pairs: Record<string, any>,
+    options?: SessionGetOptions,
+  ): Promise<BulkSessionResult[]> {
+    return this.bulkSessions({ action: "setKey", ids, pairs, backend: this.bulkBackend(options) });
   }
 
-  async secondFactorsDelType(_user: string, _type: string): Promise<void> {
-    throw new Error("secondFactorsDelType is not supported via CLI. Use API mode.");
+  // 2FA methods (stored in the persistent session)
+  async secondFactorsGet(user: string): Promise<any[]> {
+    return persistentSecondFactorsGet(this, user);
   }
 
-  // Consents methods
-  async consentsGet(_user: string): Promise<any[]> {
-    throw new Error("consentsGet is not supported via CLI. Use API mode.");
+  async secondFactorsDelete(user: string, ids: string[]): Promise<void> {
+    await persistentSecondFactorsDelete(this, user, ids);
   }
 
-  async consentsDelete(_user: string, _ids: string[]): Promise<void> {
-    throw new Error("consentsDelete is not supported via CLI. Use API mode.");
+  async secondFactorsDelType(user: string, type: string): Promise<void> {
+    await persistentSecondFactorsDelType(this, user, type);
+  }
+
+  // Consents methods (stored in the persistent session)
+  async consentsGet(user: string): Promise<any[]> {
+    return persistentConsentsGet(this, user);
+  }
+
+  async consentsDelete(user: string, ids: string[]): Promise<void> {
+    await persistentConsentsDelete(this, user, ids);
   }
 
   async execScript(scriptName: string, args: string[]): Promise<string> {
@@ -449,7 +573,7 @@ export class SshTransport implements ILlngTransport {
   }
 
   async getVersion(): Promise<string> {
-    const output = await this.exec([
+    const output = await this.read([
       "perl",
       "-MLemonldap::NG::Common",
       "-le",
@@ -468,4 +592,24 @@ export class SshTransport implements ILlngTransport {
     const output = await this.exec(["perl", "-e", FLUSH_CACHE_SCRIPT, target]);
     return JSON.parse(output.trim());
   }
+
+  async diagnoseHost(): Promise<HostDiagnostics> {
+    const output = await this.read(["perl", "-e", HOST_DIAGNOSTICS_SCRIPT]);
+    return JSON.parse(output.trim());
+  }
+
+  async listNodes(): Promise<string[]> {
+    const nodes = [this.config.host ?? LOCAL_NODE, ...(this.config.hosts ?? [])];
+    return [...new Set(nodes)];
+  }
+
+  forNode(node: string): ILlngTransport {
+    if (node === (this.config.host ?? LOCAL_NODE)) {
+      return this;
+    }
+    if (!this.config.hosts?.includes(node)) {
+      throw new Error(`Unknown node '${node}'`);
+    }
+    return new SshTransport({ ...this.config, host: node });
+  }
 }